@@ -1,6 +1,6 @@
 // Example of using the WaveSpeed client in TypeScript
 
-import WaveSpeed, { RequestOptions } from 'wavespeed';
+import WaveSpeed, { FluxDevInput, RequestOptions } from 'wavespeed';
 
 // Initialize the client with your API key (or set WAVESPEED_API_KEY environment variable)
 const client = new WaveSpeed('YOUR_API_KEY');
@@ -9,7 +9,7 @@ const client = new WaveSpeed('YOUR_API_KEY');
 async function generateImageSync(): Promise<void> {
   try {
     // Define input parameters
-    const input: Record<string, any> = {
+    const input: FluxDevInput = {
       prompt: 'A futuristic cityscape with flying cars and neon lights',
       size: '1024*1024',
       num_inference_steps: 28,
@@ -35,7 +35,7 @@ async function generateImageSync(): Promise<void> {
 async function generateImageAsync(): Promise<void> {
   try {
     // Define input parameters
-    const input: Record<string, any> = {
+    const input: FluxDevInput = {
       prompt: 'A beautiful mountain landscape at sunset',
       size: '1024*1024',
       num_inference_steps: 28,
@@ -51,21 +51,15 @@ async function generateImageAsync(): Promise<void> {
     console.log(`Prediction created with ID: ${prediction.id}`);
     console.log(`Initial status: ${prediction.status}`);
 
-    // Manually check status by reloading the prediction
+    // Stream status updates until the prediction is completed or failed
     let currentPrediction = prediction;
-    
-    // Poll until the prediction is complete
-    while (currentPrediction.status === 'processing') {
-      console.log('Prediction still processing, checking again in 2 seconds...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Reload the prediction to get the latest status
-      currentPrediction = await currentPrediction.reload();
-      console.log(`Updated status: ${currentPrediction.status}`);
+    for await (const update of prediction.stream({ pollInterval: 2 })) {
+      console.log(`Updated status: ${update.status}`);
+      currentPrediction = update;
     }
     
     // Check the final status
-    if (currentPrediction.status === 'completed' || currentPrediction.status === 'failed') {
+    if (currentPrediction.status === 'completed') {
       console.log('Prediction completed successfully!');
       
       // Print the generated image URLs
@@ -87,7 +81,7 @@ async function generateImageAsync(): Promise<void> {
 async function generateImageWithOptions(): Promise<void> {
   try {
     // Define input parameters
-    const input: Record<string, any> = {
+    const input: FluxDevInput = {
       prompt: 'A serene beach at dawn',
       size: '1024*1024',
       num_inference_steps: 28,
@@ -0,0 +1,165 @@
+import type { RequestOptions, WaveSpeed } from './index';
+import { InputValidationError, WaveSpeedAPIError, createAPIError, getRequestId, readJSONResponse } from './errors';
+import { JSONSchema, validateSchema } from './schema';
+
+/**
+ * Metadata of a model
+ */
+export interface ModelInfo {
+  /** Model id, e.g. 'wavespeed-ai/flux-dev' */
+  model_id: string;
+  name?: string;
+  description?: string;
+  /** Kind of model, e.g. 'text-to-image' */
+  type?: string;
+  /** JSON Schema of the model input */
+  input_schema?: JSONSchema;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for the model catalog
+ */
+export interface ModelCatalogOptions {
+  /** Input schemas by model id, used instead of fetching them, e.g. to validate offline */
+  schemas?: Record<string, JSONSchema>;
+  /** Time in seconds fetched model metadata stays cached (default: 3600) */
+  cacheTtl?: number;
+}
+
+interface CacheEntry {
+  info: Promise<ModelInfo>;
+  expiresAt: number;
+}
+
+/**
+ * Model catalog of the API, available as `client.models`
+ *
+ * Model metadata is cached in memory so that validating inputs does not cost a request per prediction.
+ */
+export class ModelCatalog {
+  readonly cacheTtl: number;
+  private schemas = new Map<string, JSONSchema>();
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(private client: WaveSpeed, options: ModelCatalogOptions = {}) {
+    this.cacheTtl = options.cacheTtl !== undefined ? options.cacheTtl : 3600;
+    for (const [modelId, schema] of Object.entries(options.schemas || {})) {
+      this.schemas.set(modelId, schema);
+    }
+  }
+
+  /**
+   * List the available models
+   *
+   * @param options Additional fetch options, e.g. an AbortSignal
+   */
+  async list(options: RequestOptions = {}): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = await this.request('models', 'Failed to list models', options);
+    const expiresAt = Date.now() + this.cacheTtl * 1000;
+    for (const info of models) {
+      this.cache.set(info.model_id, { info: Promise.resolve(info), expiresAt });
+    }
+    return models;
+  }
+
+  /**
+   * Get the metadata of a model, from the cache when available
+   *
+   * @param modelId Model id, e.g. 'wavespeed-ai/flux-dev'
+   * @param options Additional fetch options, e.g. an AbortSignal
+   */
+  async get(modelId: string, options: RequestOptions = {}): Promise<ModelInfo> {
+    const cached = this.cache.get(modelId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.info;
+    }
+
+    // Concurrent lookups of the same model share a single request
+    const info = this.request<ModelInfo>(`models/${modelId}`, `Failed to get model ${modelId}`, options);
+    this.cache.set(modelId, { info, expiresAt: Date.now() + this.cacheTtl * 1000 });
+    info.catch(() => {
+      if (this.cache.get(modelId)?.info === info) {
+        this.cache.delete(modelId);
+      }
+    });
+    return info;
+  }
+
+  /**
+   * Get the input schema of a model: the injected one if any, otherwise the one of its metadata
+   *
+   * @param modelId Model id
+   * @param options Additional fetch options, e.g. an AbortSignal
+   * @returns The schema, or undefined if the model does not publish one
+   */
+  async getSchema(modelId: string, options: RequestOptions = {}): Promise<JSONSchema | undefined> {
+    const schema = this.schemas.get(modelId);
+    if (schema) {
+      return schema;
+    }
+    return (await this.get(modelId, options)).input_schema;
+  }
+
+  /**
+   * Validate an input against the schema of its model
+   *
+   * @param modelId Model id
+   * @param input Input to validate
+   * @param options Additional fetch options used to fetch the schema
+   * @returns The input with the defaults of missing fields filled in, or the input itself if the
+   * model does not publish a schema
+   * @throws InputValidationError listing every offending field
+   */
+  async validate<T extends Record<string, any>>(modelId: string, input: T, options: RequestOptions = {}): Promise<T> {
+    const schema = await this.getSchema(modelId, options);
+    if (!schema) {
+      return input;
+    }
+    const { value, issues } = validateSchema(schema, input);
+    if (issues.length > 0) {
+      throw new InputValidationError(modelId, issues);
+    }
+    return value;
+  }
+
+  /**
+   * Provide the input schema of a model, which is then never fetched
+   *
+   * @param modelId Model id
+   * @param schema JSON Schema of the model input
+   */
+  setSchema(modelId: string, schema: JSONSchema): void {
+    this.schemas.set(modelId, schema);
+  }
+
+  /**
+   * Forget the fetched model metadata. Injected schemas are kept.
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Send a GET request and unwrap the `data` field of the answer
+   * @private
+   */
+  private async request<T>(path: string, context: string, options: RequestOptions): Promise<T> {
+    const response = await this.client.fetchWithTimeout(path, options);
+    if (!response.ok) {
+      throw await createAPIError(response, context);
+    }
+
+    const data = await readJSONResponse(response, context);
+    if (data.code !== 200) {
+      throw new WaveSpeedAPIError(`${context}: ${data.code} ${data.message}`, {
+        status: response.status,
+        code: data.code,
+        apiMessage: data.message,
+        requestId: getRequestId(response),
+        body: JSON.stringify(data),
+      });
+    }
+    return data.data;
+  }
+}
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodegenModel, generateDeclarations } from './codegen';
+
+const USAGE = `Usage: wavespeed codegen <file or directory> [--out <file>] [--module <name>]
+
+Generate TypeScript declarations for models from their JSON Schemas.
+
+Each JSON file holds a model as returned by the model catalog ({ model_id, input_schema,
+output_schema? }), a list of them, or a bare input schema named after the model id,
+e.g. schemas/my-team/upscaler.json for 'my-team/upscaler'.
+
+Options:
+  --out <file>      Write the declarations to a file instead of stdout
+  --module <name>   Module whose ModelMap is augmented (default: wavespeed)
+`;
+
+/**
+ * Output streams of the CLI
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * List the JSON files of a directory, recursively and in a stable order
+ * @private
+ */
+function listJsonFiles(directory: string): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listJsonFiles(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith('.json')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read the models described by a JSON file
+ *
+ * @param file JSON file
+ * @param root Directory the model id of a bare schema is relative to
+ * @private
+ */
+export function readModels(file: string, root: string): CodegenModel[] {
+  let content = JSON.parse(fs.readFileSync(file, 'utf8'));
+  // Answers of the model catalog wrap the models in `data`
+  if (content && !Array.isArray(content) && 'data' in content && 'code' in content) {
+    content = content.data;
+  }
+
+  const items: unknown[] = Array.isArray(content) ? content : [content];
+  return items.map(item => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`${file}: expected a model or a JSON Schema`);
+    }
+    const model = item as CodegenModel & Record<string, unknown>;
+    if (typeof model.model_id === 'string') {
+      return model;
+    }
+    if (model.type || model.properties) {
+      const modelId = path.relative(root, file).replace(/\.json$/, '').split(path.sep).join('/');
+      return { model_id: modelId, input_schema: model };
+    }
+    throw new Error(`${file}: expected a model with a model_id, or a JSON Schema`);
+  });
+}
+
+/**
+ * Run the CLI
+ *
+ * @param args Command line arguments, without the node executable and script
+ * @param io Output streams
+ * @returns Exit code
+ */
+export async function main(args: string[], io: CliIO = defaultIO): Promise<number> {
+  const [command, ...rest] = args;
+  if (command !== 'codegen' || rest.includes('--help') || rest.includes('-h')) {
+    (command === 'codegen' ? io.stdout : io.stderr)(USAGE);
+    return command === 'codegen' ? 0 : 1;
+  }
+
+  let input: string | undefined;
+  let out: string | undefined;
+  let moduleName: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--out' || arg === '--module') {
+      const value = rest[++i];
+      if (!value) {
+        io.stderr(`Missing value for ${arg}\n\n${USAGE}`);
+        return 1;
+      }
+      if (arg === '--out') {
+        out = value;
+      } else {
+        moduleName = value;
+      }
+    } else if (!input) {
+      input = arg;
+    } else {
+      io.stderr(`Unexpected argument ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+  if (!input) {
+    io.stderr(USAGE);
+    return 1;
+  }
+
+  try {
+    const isDirectory = fs.statSync(input).isDirectory();
+    const files = isDirectory ? listJsonFiles(input) : [input];
+    const root = isDirectory ? input : path.dirname(input);
+    const models: CodegenModel[] = [];
+    for (const file of files) {
+      models.push(...readModels(file, root));
+    }
+    if (models.length === 0) {
+      io.stderr(`No model schemas found in ${input}\n`);
+      return 1;
+    }
+
+    const declarations = generateDeclarations(models, { moduleName });
+    if (out) {
+      fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+      fs.writeFileSync(out, declarations);
+      io.stderr(`Wrote types for ${models.length} model(s) to ${out}\n`);
+    } else {
+      io.stdout(declarations);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,222 @@
+import type { JSONSchema } from './schema';
+import { BUILTIN_MODEL_IDS } from './models';
+
+/**
+ * Schemas of one model, in the format of the model catalog
+ */
+export interface CodegenModel {
+  /** Model id, e.g. 'wavespeed-ai/flux-dev' */
+  model_id: string;
+  description?: string;
+  /** JSON Schema of the model input */
+  input_schema?: JSONSchema;
+  /** JSON Schema of the prediction outputs (default: a list of URLs) */
+  output_schema?: JSONSchema;
+}
+
+/**
+ * Options for generateDeclarations
+ */
+export interface CodegenOptions {
+  /** Module whose ModelMap is augmented (default: 'wavespeed') */
+  moduleName?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Generate a TypeScript declaration file with input interfaces and ModelMap entries for models
+ *
+ * Models typed by the SDK itself get interfaces but no ModelMap entry, which would conflict.
+ *
+ * @param models Models to generate types for
+ * @param options Generation options
+ */
+export function generateDeclarations(models: CodegenModel[], options: CodegenOptions = {}): string {
+  const moduleName = options.moduleName || 'wavespeed';
+  const usedNames = new Set<string>();
+  const declarations: string[] = [];
+  const entries: string[] = [];
+
+  for (const model of [...models].sort((a, b) => a.model_id.localeCompare(b.model_id))) {
+    const baseName = uniqueName(typeName(model.model_id), usedNames);
+    const inputName = `${baseName}Input`;
+    const outputName = `${baseName}Output`;
+
+    const inputSchema = model.input_schema || { type: 'object' };
+    const description = [`Input of ${model.model_id}`, model.description].filter(Boolean).join('\n\n');
+    if (inputSchema.properties) {
+      declarations.push(`${jsDoc(description, '')}export interface ${inputName} ${objectType(inputSchema, '')}`);
+    } else {
+      declarations.push(`${jsDoc(description, '')}export type ${inputName} = ${schemaToType(inputSchema, '')};`);
+    }
+
+    const outputType = model.output_schema ? schemaToType(model.output_schema, '') : 'string[]';
+    declarations.push(`${jsDoc(`Outputs of ${model.model_id}`, '')}export type ${outputName} = ${outputType};`);
+
+    if (BUILTIN_MODEL_IDS.includes(model.model_id)) {
+      entries.push(`    // ${model.model_id} is already typed by the SDK`);
+    } else {
+      entries.push(`    ${literal(model.model_id)}: { input: ${inputName}; output: ${outputName} };`);
+    }
+  }
+
+  return [
+    '// Generated by `wavespeed codegen`. Do not edit by hand.',
+    `import ${literal(moduleName)};`,
+    '',
+    ...declarations.map(declaration => `${declaration}\n`),
+    `declare module ${literal(moduleName)} {`,
+    '  interface ModelMap {',
+    ...entries,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * PascalCase type name for a model id, e.g. 'wavespeed-ai/flux-dev' -> 'WavespeedAiFluxDev'
+ * @private
+ */
+function typeName(modelId: string): string {
+  const name = modelId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `Model${name}` : name || 'Model';
+}
+
+/**
+ * Suffix a name with a counter until it is unique
+ * @private
+ */
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let unique = name;
+  for (let i = 2; usedNames.has(unique); i++) {
+    unique = `${name}${i}`;
+  }
+  usedNames.add(unique);
+  return unique;
+}
+
+/**
+ * JSDoc comment for a description and validation keywords, or nothing if there is nothing to say
+ * @private
+ */
+function jsDoc(description: string | undefined, indent: string, schema: JSONSchema = {}): string {
+  const lines = description ? description.split(/\r?\n/) : [];
+  const tags: string[] = [];
+  if (schema.default !== undefined) {
+    tags.push(`@default ${JSON.stringify(schema.default)}`);
+  }
+  for (const keyword of ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'minItems', 'maxItems', 'pattern', 'format']) {
+    if (schema[keyword] !== undefined) {
+      tags.push(`@${keyword} ${schema[keyword]}`);
+    }
+  }
+  if (tags.length > 0 && lines.length > 0) {
+    lines.push('');
+  }
+  lines.push(...tags);
+  // A `*/` in a description or a pattern would end the comment early
+  for (let i = 0; i < lines.length; i++) {
+    lines[i] = lines[i].replace(/\*\//g, '*\\/');
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Object type literal for a schema with properties
+ * @private
+ */
+function objectType(schema: JSONSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required || []);
+  const members = Object.entries(schema.properties || {}).map(([key, property]) => {
+    const name = IDENTIFIER.test(key) ? key : literal(key);
+    const optional = required.has(key) ? '' : '?';
+    return `${jsDoc(property.description, inner, property)}${inner}${name}${optional}: ${schemaToType(property, inner)};`;
+  });
+
+  if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    members.push(`${inner}[key: string]: ${schemaToType(schema.additionalProperties, inner)};`);
+  }
+  if (members.length === 0) {
+    return '{}';
+  }
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * TypeScript type for a schema
+ * @private
+ */
+function schemaToType(schema: JSONSchema, indent: string): string {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map(literal));
+  }
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    return union(alternatives.map(alternative => schemaToType(alternative, indent)));
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map(type => schemaToType({ ...schema, type }, indent)));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? schemaToType(schema.items, indent) : 'unknown';
+      return /^[\w.$"']+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      if (schema.properties) {
+        return objectType(schema, indent);
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${schemaToType(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+}
+
+/**
+ * TypeScript literal for a JSON value, strings being single quoted
+ * @private
+ */
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Union of types without duplicates
+ * @private
+ */
+function union(types: string[]): string {
+  return types.filter((type, index) => types.indexOf(type) === index).join(' | ');
+}
@@ -0,0 +1,196 @@
+import type { Prediction, RequestOptions, WaveSpeed } from './index';
+import { StorageError, WaveSpeedError, createAPIError } from './errors';
+import { DEFAULT_MIME_TYPE, extensionFromMimeType } from './mime';
+import { InlineOutput, isInlineOutput } from './outputs';
+import { FileSystemStorage, StorageAdapter } from './storage';
+import { isNode, mapWithConcurrency, throwIfAborted } from './utils';
+
+/**
+ * Options for Prediction.outputBlobs
+ */
+export interface OutputBlobsOptions extends RequestOptions {
+  /** Maximum number of outputs downloaded at once (default: 4) */
+  concurrency?: number;
+  /** Skip the outputs flagged in `has_nsfw_contents` (default: false) */
+  skipNsfw?: boolean;
+}
+
+/**
+ * Options for Prediction.download
+ */
+export interface DownloadOptions extends OutputBlobsOptions {
+  /** Directory the files are written to, created if missing (default: the current directory) */
+  dir?: string;
+  /**
+   * File name of each output, with the placeholders `{id}`, `{model}`, `{index}`, `{name}` (file
+   * name in the URL) and `{ext}` (default: '{id}_{index}.{ext}')
+   */
+  filenameTemplate?: string;
+}
+
+/**
+ * Output URLs of a prediction with their index, leaving out flagged outputs when asked to
+ * @private
+ */
+function selectOutputs(prediction: Prediction, skipNsfw: boolean): { url: string; index: number }[] {
+  const outputs: unknown[] = Array.isArray(prediction.outputs) ? prediction.outputs : [prediction.outputs];
+  const selected: { url: string; index: number }[] = [];
+  outputs.forEach((output, index) => {
+    if (typeof output !== 'string') {
+      throw new WaveSpeedError(`Output ${index} of prediction ${prediction.id} is neither a URL nor inline data`);
+    }
+    if (!(skipNsfw && prediction.has_nsfw_contents[index])) {
+      selected.push({ url: output, index });
+    }
+  });
+  return selected;
+}
+
+/**
+ * Fetch one output through the client, without sending the API key to the storage host
+ * @private
+ */
+async function fetchOutput(client: WaveSpeed, url: string, options: RequestOptions): Promise<Response> {
+  if (isInlineOutput(url)) {
+    const output = new InlineOutput(url, 0);
+    return new Response(output.bytes(), { headers: { 'content-type': output.type } });
+  }
+  const response = await client.fetchWithTimeout(url, { method: 'GET', ...options, authorize: false });
+  if (!response.ok) {
+    throw await createAPIError(response, `Failed to download ${url}`);
+  }
+  return response;
+}
+
+/**
+ * Download the outputs of a prediction as Blobs
+ *
+ * @param client Client sending the requests
+ * @param prediction Prediction whose outputs are downloaded
+ * @param options Concurrency, NSFW filtering and fetch options
+ * @private
+ */
+export async function fetchOutputBlobs(client: WaveSpeed, prediction: Prediction, options: OutputBlobsOptions = {}): Promise<Blob[]> {
+  const { concurrency = 4, skipNsfw = false, ...requestOptions } = options;
+  return mapWithConcurrency(selectOutputs(prediction, skipNsfw), concurrency, async ({ url }) => {
+    const response = await fetchOutput(client, url, requestOptions);
+    return response.blob();
+  });
+}
+
+/**
+ * File name of an output from a template
+ * @private
+ */
+function formatFilename(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    values[key] !== undefined ? values[key].replace(/[\\/:*?"<>|]/g, '_') : placeholder);
+}
+
+/**
+ * Options for Prediction.persist and the `storage` client option
+ */
+export interface StorageOptions {
+  /** Storage the outputs are copied into */
+  adapter: StorageAdapter;
+  /**
+   * Key of each output, with the placeholders of `DownloadOptions.filenameTemplate`
+   * (default: '{model}/{id}/{index}.{ext}')
+   */
+  keyTemplate?: string;
+  /** Maximum number of outputs copied at once (default: 4) */
+  concurrency?: number;
+  /** Skip the outputs flagged in `has_nsfw_contents` (default: false) */
+  skipNsfw?: boolean;
+}
+
+/**
+ * Copy the outputs of a prediction into storage
+ *
+ * @param client Client sending the requests
+ * @param prediction Prediction whose outputs are copied
+ * @param storage Storage adapter, key template, concurrency and NSFW filtering
+ * @param requestOptions Options of the download requests
+ * @returns Persisted location of each output, in output order, or null for skipped outputs
+ * @private
+ */
+export async function persistOutputs(
+  client: WaveSpeed,
+  prediction: Prediction,
+  storage: StorageOptions,
+  requestOptions: RequestOptions = {}
+): Promise<(string | null)[]> {
+  const { adapter, keyTemplate = '{model}/{id}/{index}.{ext}', concurrency = 4, skipNsfw = false } = storage;
+  const outputs = selectOutputs(prediction, skipNsfw);
+  const locations: (string | null)[] = (Array.isArray(prediction.outputs) ? prediction.outputs : [prediction.outputs]).map(() => null);
+
+  await mapWithConcurrency(outputs, concurrency, async ({ url, index }) => {
+    const response = await fetchOutput(client, url, requestOptions);
+    const key = formatFilename(keyTemplate, templateValues(prediction, url, index, response));
+    try {
+      locations[index] = await adapter.put({
+        key,
+        body: response.body || new Response('').body!,
+        contentType: response.headers.get('content-type') || DEFAULT_MIME_TYPE,
+        size: Number(response.headers.get('content-length')) || undefined,
+      }, { signal: requestOptions.signal || undefined });
+    } catch (error) {
+      throwIfAborted(requestOptions.signal);
+      if (error instanceof WaveSpeedError) {
+        throw error;
+      }
+      // Errors of custom adapters and of the file system become StorageErrors
+      throw new StorageError(`Failed to store ${key}: ${error instanceof Error ? error.message : String(error)}`, key, undefined, error);
+    }
+  });
+
+  client.logger.info('Outputs persisted', { predictionId: prediction.id, count: outputs.length });
+  return locations;
+}
+
+/**
+ * Values of the file name and key placeholders of an output
+ * @private
+ */
+function templateValues(prediction: Prediction, url: string, index: number, response: Response): Record<string, string> {
+  // The extension comes from the Content-Type, then from the URL
+  const urlName = isInlineOutput(url) ? '' : decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  const urlExtension = /\.([a-z0-9]+)$/i.exec(urlName);
+  const contentType = response.headers.get('content-type') || '';
+  return {
+    id: prediction.id,
+    model: prediction.model,
+    index: String(index),
+    name: urlExtension ? urlName.slice(0, -urlExtension[0].length) : urlName || String(index),
+    ext: extensionFromMimeType(contentType) || (urlExtension ? urlExtension[1].toLowerCase() : 'bin'),
+  };
+}
+
+/**
+ * Stream the outputs of a prediction to files, in Node.js
+ *
+ * @param client Client sending the requests
+ * @param prediction Prediction whose outputs are downloaded
+ * @param options Directory, file names, concurrency, NSFW filtering and fetch options
+ * @returns Paths of the written files, in output order
+ * @private
+ */
+export async function downloadOutputs(client: WaveSpeed, prediction: Prediction, options: DownloadOptions = {}): Promise<string[]> {
+  if (!isNode()) {
+    throw new WaveSpeedError('Downloading outputs to files is only supported in Node.js; use outputBlobs() instead');
+  }
+  const { dir = '.', filenameTemplate = '{id}_{index}.{ext}', concurrency = 4, skipNsfw = false, ...requestOptions } = options;
+  const storage = new FileSystemStorage({ dir });
+
+  const paths = await mapWithConcurrency(selectOutputs(prediction, skipNsfw), concurrency, async ({ url, index }) => {
+    const response = await fetchOutput(client, url, requestOptions);
+    return storage.put({
+      key: formatFilename(filenameTemplate, templateValues(prediction, url, index, response)),
+      body: response.body || new Response('').body!,
+      contentType: response.headers.get('content-type') || DEFAULT_MIME_TYPE,
+    }, { signal: requestOptions.signal || undefined });
+  });
+
+  client.logger.info('Outputs downloaded', { predictionId: prediction.id, count: paths.length, dir });
+  return paths;
+}
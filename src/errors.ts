@@ -0,0 +1,274 @@
+import type { Prediction } from './index';
+import type { ValidationIssue } from './schema';
+
+/**
+ * Base class for all errors thrown by the WaveSpeed client
+ */
+export class WaveSpeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaveSpeedError';
+    // Keep the prototype chain intact so instanceof works regardless of how the SDK was compiled or bundled
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Details carried by an API error
+ */
+export interface WaveSpeedAPIErrorDetails {
+  status: number;
+  code?: number;
+  apiMessage?: string;
+  requestId?: string;
+  body?: string;
+}
+
+/**
+ * The API answered with a non-successful HTTP status or a non-200 `code`
+ */
+export class WaveSpeedAPIError extends WaveSpeedError {
+  /** HTTP status of the response */
+  readonly status: number;
+  /** `code` field of the API response body, if any */
+  readonly code?: number;
+  /** `message` field of the API response body, if any */
+  readonly apiMessage?: string;
+  /** Request id reported by the server, if any */
+  readonly requestId?: string;
+  /** Raw response body */
+  readonly body: string;
+
+  constructor(message: string, details: WaveSpeedAPIErrorDetails) {
+    super(message);
+    this.name = 'WaveSpeedAPIError';
+    this.status = details.status;
+    this.code = details.code;
+    this.apiMessage = details.apiMessage;
+    this.requestId = details.requestId;
+    this.body = details.body || '';
+  }
+}
+
+/**
+ * A request did not complete within its timeout
+ */
+export class WaveSpeedTimeoutError extends WaveSpeedError {
+  /** Timeout that was exceeded, in milliseconds */
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'WaveSpeedTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A prediction did not finish before the deadline given to Prediction.wait
+ */
+export class PredictionTimeoutError extends WaveSpeedTimeoutError {
+  /** Id of the prediction, to resume waiting on it later */
+  readonly predictionId: string;
+  /** The prediction as of the last poll */
+  readonly prediction: Prediction;
+
+  constructor(prediction: Prediction, timeout: number) {
+    super(`Prediction ${prediction.id} did not finish within ${timeout}ms (last status: ${prediction.status})`, timeout);
+    this.name = 'PredictionTimeoutError';
+    this.predictionId = prediction.id;
+    this.prediction = prediction;
+  }
+}
+
+/**
+ * The operation was cancelled through a caller supplied AbortSignal
+ */
+export class WaveSpeedAbortError extends WaveSpeedError {
+  /** Reason passed to `AbortController.abort()`, if any */
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? `The operation was aborted: ${reason.message}` : 'The operation was aborted');
+    this.name = 'WaveSpeedAbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * A request could not reach the API (DNS failure, connection reset, ...)
+ */
+export class WaveSpeedNetworkError extends WaveSpeedError {
+  /** Underlying error raised by fetch */
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'WaveSpeedNetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The circuit breaker is open: requests fail fast after repeated upstream failures
+ */
+export class CircuitOpenError extends WaveSpeedError {
+  /** Time (epoch milliseconds) after which a trial request will be let through */
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super(`Circuit breaker is open after repeated upstream failures, retry after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * A prediction finished with status `failed`
+ */
+export class PredictionFailedError extends WaveSpeedError {
+  /** The failed prediction */
+  readonly prediction: Prediction;
+
+  constructor(prediction: Prediction) {
+    super(`Prediction ${prediction.id} failed: ${prediction.error || 'unknown error'}`);
+    this.name = 'PredictionFailedError';
+    this.prediction = prediction;
+  }
+}
+
+/**
+ * A prediction was cancelled before it finished
+ */
+export class PredictionCancelledError extends WaveSpeedError {
+  /** The cancelled prediction */
+  readonly prediction: Prediction;
+
+  constructor(prediction: Prediction) {
+    super(`Prediction ${prediction.id} was cancelled`);
+    this.name = 'PredictionCancelledError';
+    this.prediction = prediction;
+  }
+}
+
+/**
+ * The API rejected a file upload
+ */
+export class UploadError extends WaveSpeedAPIError {
+  constructor(message: string, details: WaveSpeedAPIErrorDetails) {
+    super(message, details);
+    this.name = 'UploadError';
+  }
+}
+
+/**
+ * An input does not match the JSON Schema of its model
+ */
+export class InputValidationError extends WaveSpeedError {
+  /** Model the input was meant for */
+  readonly modelId: string;
+  /** Every offending field */
+  readonly issues: ValidationIssue[];
+
+  constructor(modelId: string, issues: ValidationIssue[]) {
+    super(`Invalid input for ${modelId}: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'InputValidationError';
+    this.modelId = modelId;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A storage adapter failed to store an object
+ */
+export class StorageError extends WaveSpeedError {
+  /** Key of the object */
+  readonly key: string;
+  /** HTTP status of the storage service response, if any */
+  readonly status?: number;
+  /** Underlying error raised by the storage adapter, if any */
+  readonly cause?: unknown;
+  /** Prediction whose outputs were being stored, e.g. to retry `persist()` on it later */
+  prediction?: Prediction;
+
+  constructor(message: string, key: string, status?: number, cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.key = key;
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Build an API error from a failed response
+ *
+ * @param response Response that failed
+ * @param context Human readable description of the failed operation
+ * @param ErrorClass Error class to instantiate
+ * @private
+ */
+export async function createAPIError(
+  response: Response,
+  context: string,
+  ErrorClass: new (message: string, details: WaveSpeedAPIErrorDetails) => WaveSpeedAPIError = WaveSpeedAPIError
+): Promise<WaveSpeedAPIError> {
+  const body = await response.text();
+  let code: number | undefined;
+  let apiMessage: string | undefined;
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === 'object') {
+      code = typeof parsed.code === 'number' ? parsed.code : undefined;
+      apiMessage = typeof parsed.message === 'string' ? parsed.message : undefined;
+    }
+  } catch {
+    // Body is not JSON, keep it raw
+  }
+
+  return new ErrorClass(`${context}: ${response.status} ${body}`, {
+    status: response.status,
+    code,
+    apiMessage,
+    requestId: getRequestId(response),
+    body,
+  });
+}
+
+/**
+ * Parse the JSON body of a successful response, throwing an API error if the body is not JSON,
+ * e.g. the HTML page of a gateway
+ *
+ * @param response Response to parse
+ * @param context Human readable description of the operation
+ * @param ErrorClass Error class to instantiate
+ * @private
+ */
+export async function readJSONResponse(
+  response: Response,
+  context: string,
+  ErrorClass: new (message: string, details: WaveSpeedAPIErrorDetails) => WaveSpeedAPIError = WaveSpeedAPIError
+): Promise<any> {
+  const body = await response.text();
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new ErrorClass(`${context}: ${response.status} response is not valid JSON`, {
+      status: response.status,
+      requestId: getRequestId(response),
+      body,
+    });
+  }
+}
+
+/**
+ * Extract the request id header from a response, if present
+ * @private
+ */
+export function getRequestId(response: Response): string | undefined {
+  const headers = response.headers;
+  if (!headers || typeof headers.get !== 'function') {
+    return undefined;
+  }
+  return headers.get('x-request-id') || headers.get('request-id') || undefined;
+}
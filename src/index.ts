@@ -1,3 +1,108 @@
+import {
+  WaveSpeedError,
+  WaveSpeedAPIError,
+  WaveSpeedTimeoutError,
+  WaveSpeedNetworkError,
+  WaveSpeedAbortError,
+  PredictionFailedError,
+  PredictionTimeoutError,
+  PredictionCancelledError,
+  InputValidationError,
+  StorageError,
+  createAPIError,
+  getRequestId,
+  readJSONResponse,
+} from './errors';
+import { PollScheduler, PollSchedulerOptions } from './scheduler';
+import { RateLimiter, RateLimiterOptions } from './rate-limiter';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  IDEMPOTENT_METHODS,
+  JitterStrategy,
+  RetryableErrorType,
+  RetryPolicy,
+  resolveRetryPolicy,
+} from './retry';
+import { Logger, LogLevel, createLogger, errorFields } from './logger';
+import { Middleware, composeMiddleware, toHeaderRecord } from './middleware';
+import { FetchFunction, TransportOptions, createNodeFetch } from './transport';
+import { AnyModelId, ModelInput, ModelOutput } from './models';
+import { ModelCatalog, ModelCatalogOptions } from './catalog';
+import { PredictionHistory } from './predictions';
+import {
+  DEFAULT_UPLOAD_CONFIG,
+  PreparedUpload,
+  UploadConfig,
+  UploadFileOptions,
+  UploadProgress,
+  UploadSource,
+  prepareUpload,
+  readUploadResponse,
+  uploadInChunks,
+} from './upload';
+import { AutoUploadOptions, WithFileInputs, uploadFileInputs } from './inputs';
+import {
+  DownloadOptions,
+  OutputBlobsOptions,
+  StorageOptions,
+  downloadOutputs,
+  fetchOutputBlobs,
+  persistOutputs,
+} from './download';
+import { InlineOutput, isInlineOutput } from './outputs';
+import { generateIdempotencyKey, getRetryAfter, sleep, throwIfAborted } from './utils';
+
+export {
+  WaveSpeedError,
+  WaveSpeedAPIError,
+  WaveSpeedTimeoutError,
+  WaveSpeedNetworkError,
+  WaveSpeedAbortError,
+  CircuitOpenError,
+  PredictionFailedError,
+  PredictionTimeoutError,
+  PredictionCancelledError,
+  UploadError,
+  InputValidationError,
+  StorageError,
+} from './errors';
+export type { WaveSpeedAPIErrorDetails } from './errors';
+export { PollScheduler } from './scheduler';
+export type { PollSchedulerOptions } from './scheduler';
+export { RateLimiter } from './rate-limiter';
+export type { RateLimiterOptions, RateLimiterStats } from './rate-limiter';
+export { consoleLogger } from './logger';
+export type { Logger, LogFields, LogLevel } from './logger';
+export type { Middleware, MiddlewareNext, MiddlewareRequest } from './middleware';
+export { createNodeFetch } from './transport';
+export type { FetchFunction, TransportOptions } from './transport';
+export type { AnyModelId, FluxDevInput, ModelId, ModelInput, ModelMap, ModelOutput } from './models';
+export { ModelCatalog } from './catalog';
+export type { ModelCatalogOptions, ModelInfo } from './catalog';
+export { PredictionHistory } from './predictions';
+export type { PredictionListOptions, PredictionPage } from './predictions';
+export { validateSchema } from './schema';
+export { DEFAULT_UPLOAD_CONFIG } from './upload';
+export type { NodeReadableStream, UploadConfig, UploadFileOptions, UploadProgress, UploadSource } from './upload';
+export type { AutoUploadOptions, FileInput, WithFileInputs } from './inputs';
+export type { DownloadOptions, OutputBlobsOptions, StorageOptions } from './download';
+export { InlineOutput } from './outputs';
+export { FileSystemStorage, S3Storage } from './storage';
+export type { FileSystemStorageOptions, S3StorageOptions, StorageAdapter, StorageObject, StoragePutOptions } from './storage';
+export { detectMimeType, extensionFromMimeType, mimeTypeFromFilename } from './mime';
+export { generateDeclarations } from './codegen';
+export type { CodegenModel, CodegenOptions } from './codegen';
+export type { JSONSchema, JSONSchemaType, ValidationIssue, ValidationResult } from './schema';
+export { CircuitBreaker, DEFAULT_RETRY_POLICY } from './retry';
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  JitterStrategy,
+  RetryableErrorType,
+  RetryPolicy,
+} from './retry';
+
 /**
  * Input parameters for image generation
  */
@@ -5,7 +110,14 @@
 /**
  * Prediction status
  */
-export type PredictionStatus = 'created' | 'processing' | 'completed' | 'failed';
+export type PredictionStatus = 'created' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Whether a prediction with the given status will no longer change
+ */
+export function isTerminalStatus(status: PredictionStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
 
 /**
  * Prediction URLs
@@ -14,15 +126,53 @@ export interface PredictionUrls {
   get: string;
 }
 
+/**
+ * Plain data of a prediction, as returned by Prediction.toJSON and accepted by WaveSpeed.attach
+ */
+export interface SerializedPrediction<M extends string = string> {
+  id: string;
+  model: M;
+  status: PredictionStatus;
+  input: ModelInput<M>;
+  outputs: ModelOutput<M>;
+  urls: PredictionUrls;
+  has_nsfw_contents: boolean[];
+  created_at: string;
+  error?: string;
+  executionTime?: number;
+  idempotencyKey?: string;
+  persistedOutputs?: (string | null)[];
+}
+
 export interface UploadFileResp {
   code: number;
   message: string;
-  data: {
-    type: string;
-    download_url: string;
-    filename: string;
-    size: number;
-  };
+  data: UploadResult;
+}
+
+/**
+ * Metadata of an uploaded file
+ */
+export interface UploadResult {
+  /** MIME type of the file */
+  type: string;
+  /** URL to pass as model input */
+  download_url: string;
+  filename: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * Options for WaveSpeed.upload
+ */
+export interface UploadOptions extends RequestOptions, UploadFileOptions {
+  /** Called as the file is sent, with the bytes sent so far and the file size */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Upload in chunks, resuming after failures (default: for files of at least the client's `chunkThreshold`) */
+  chunked?: boolean;
+  /** Size in bytes of the chunks (default: the client's `chunkSize`) */
+  chunkSize?: number;
 }
 
 /**
@@ -30,27 +180,140 @@ export interface UploadFileResp {
  */
 export interface RequestOptions extends RequestInit {
   timeout?: number;
+  /**
+   * Time, in epoch milliseconds, by which the request must finish, retries included. Every
+   * attempt is given at most the time left.
+   */
+  deadline?: number;
   maxRetries?: number;
+  retry?: RetryPolicy;
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header. Requests carrying one are safe to retry
+   * even if they are not idempotent. `create` generates one unless a key or `false` is given.
+   */
+  idempotencyKey?: string | false;
   webhook?: string;
   isUpload?: boolean;
+  /**
+   * Send the API key (default: true); false for requests to other hosts, such as output downloads,
+   * which then also bypass the circuit breaker, rate limiter and middleware of the client
+   */
+  authorize?: boolean;
+  /** Copy the outputs of `run` into the client's storage (default: true when `storage` is configured) */
+  persist?: boolean;
+  /** Create the body for every attempt, for streamed bodies that can be recreated */
+  createBody?: () => BodyInit;
+  /** Validate the input of `create` against the model schema (default: the client's `validateInput`) */
+  validateInput?: boolean;
+  /** Upload local files found in the input of `create` (default: the client's `autoUpload`) */
+  autoUpload?: AutoUploadOptions | boolean;
+  /**
+   * Ask the API to hold the `create` request open and answer with the finished prediction
+   * (default: false). The request timeout is then the client's `syncTimeout`.
+   */
+  sync?: boolean;
+  /**
+   * Ask the API for the outputs of `create` as base64 data instead of URLs (default: false), see
+   * Prediction.inlineOutputs
+   */
+  base64Output?: boolean;
+}
+
+/**
+ * Polling backoff strategy used by Prediction.wait
+ */
+export type PollBackoff = 'fixed' | 'exponential';
+
+/**
+ * Progress event emitted by Prediction.wait on every status transition
+ */
+export interface WaitProgress<M extends string = string> {
+  /** New status of the prediction */
+  status: PredictionStatus;
+  /** Seconds elapsed since wait() was called */
+  elapsed: number;
+  /** The updated prediction */
+  prediction: Prediction<M>;
+}
+
+/**
+ * Options for Prediction.wait
+ */
+export interface WaitOptions {
+  /** Signal that stops polling and rejects with a WaveSpeedAbortError */
+  signal?: AbortSignal;
+  /** Overall deadline in seconds, after which a PredictionTimeoutError is thrown (default: no deadline) */
+  timeout?: number;
+  /** Interval in seconds between polls (default: the client's pollInterval) */
+  pollInterval?: number;
+  /** Keep the poll interval fixed, or double it after every poll without a status change (default: 'fixed') */
+  backoff?: PollBackoff;
+  /** Upper bound in seconds for the exponential poll interval (default: 10) */
+  maxPollInterval?: number;
+  /** Called on every status transition */
+  onProgress?: (progress: WaitProgress) => void;
+}
+
+/**
+ * Options for Prediction.stream
+ */
+export type StreamOptions = Omit<WaitOptions, 'onProgress'>;
+
+/**
+ * One item of a batch run
+ */
+export interface BatchItem {
+  modelId: string;
+  input: Record<string, any>;
+}
+
+/**
+ * Settled result of one item of a batch run
+ */
+export type BatchResult<M extends string = string> =
+  | { status: 'fulfilled'; prediction: Prediction<M> }
+  | { status: 'rejected'; error: Error };
+
+/**
+ * Options for WaveSpeed.runMany and WaveSpeed.runBatch
+ */
+export interface RunManyOptions {
+  /** Maximum number of items running at once (default: 4) */
+  concurrency?: number;
+  /** Abort the remaining items after the first failure (default: false) */
+  stopOnError?: boolean;
+  /** Called as soon as an item settles; if it throws, the item is rejected with that error */
+  onItemDone?: (result: BatchResult, index: number) => void;
+  /** Signal that aborts every item of the batch */
+  signal?: AbortSignal;
+  /** Fetch options used to create each prediction */
+  requestOptions?: RequestOptions;
+  /** Options used to wait on each prediction */
+  waitOptions?: WaitOptions;
 }
 
 /**
  * Prediction model representing an image generation job
+ *
+ * `M` is the model id, which types `input` and `outputs` for models registered in the ModelMap.
  */
-export class Prediction {
+export class Prediction<M extends string = string> {
   id: string;
-  model: string;
+  model: M;
   status: PredictionStatus;
-  input: Record<string, any>;
-  outputs: string[];
+  input: ModelInput<M>;
+  outputs: ModelOutput<M>;
   urls: PredictionUrls;
   has_nsfw_contents: boolean[];
   created_at: string;
   error?: string;
   executionTime?: number;
+  /** Idempotency key the prediction was created with */
+  idempotencyKey?: string;
+  /** Locations of the outputs copied into storage, in output order, or null for skipped outputs */
+  persistedOutputs?: (string | null)[];
 
-  private client: WaveSpeed;
+  private client!: WaveSpeed;
 
   constructor(data: any, client: WaveSpeed) {
     this.id = data.id;
@@ -63,54 +326,288 @@ export class Prediction {
     this.created_at = data.created_at;
     this.error = data.error;
     this.executionTime = data.executionTime;
-    this.client = client;
+    this.idempotencyKey = data.idempotencyKey;
+    this.persistedOutputs = data.persistedOutputs;
+    // Not enumerable, so that copies and logs of the prediction never include the client and its API key
+    Object.defineProperty(this, 'client', { value: client, writable: true, configurable: true, enumerable: false });
+  }
+
+  /**
+   * Plain data of the prediction, without the client or its API key
+   *
+   * Store it, e.g. in a database or queue message, and pass it to WaveSpeed.attach to resume the prediction.
+   */
+  toJSON(): SerializedPrediction<M> {
+    return {
+      id: this.id,
+      model: this.model,
+      status: this.status,
+      input: this.input,
+      outputs: this.outputs,
+      urls: this.urls,
+      has_nsfw_contents: this.has_nsfw_contents,
+      created_at: this.created_at,
+      error: this.error,
+      executionTime: this.executionTime,
+      idempotencyKey: this.idempotencyKey,
+      persistedOutputs: this.persistedOutputs,
+    };
   }
 
   /**
    * Wait for the prediction to complete
+   *
+   * @param options Wait options: deadline, poll interval and backoff, progress callback and AbortSignal
+   * @throws PredictionFailedError if the prediction finishes with status `failed`
+   * @throws PredictionCancelledError if the prediction is cancelled, including while waiting
+   * @throws PredictionTimeoutError if the prediction does not finish before `options.timeout`
+   * @throws WaveSpeedAbortError if the signal is aborted before the prediction finishes
    */
-  async wait(): Promise<Prediction> {
-    if (this.status === 'completed' || this.status === 'failed') {
-      return this;
+  async wait(options: WaitOptions = {}): Promise<Prediction<M>> {
+    const { onProgress, ...pollOptions } = options;
+
+    for await (const progress of this.poll(pollOptions)) {
+      onProgress?.(progress);
     }
 
-    return new Promise((resolve, reject) => {
-      const checkStatus = async () => {
-        try {
-          const updated = await this.reload();
-          if (updated.status === 'completed' || updated.status === 'failed') {
-            resolve(updated);
-          } else {
-            setTimeout(checkStatus, this.client.pollInterval * 1000);
+    if (this.status === 'failed') {
+      this.client.logger.debug('Prediction failed', { model: this.model, predictionId: this.id, error: this.error });
+      throw new PredictionFailedError(this);
+    }
+    if (this.status === 'cancelled') {
+      throw new PredictionCancelledError(this);
+    }
+    return this;
+  }
+
+  /**
+   * Stream status updates of the prediction
+   *
+   * Yields a snapshot of the current state first, then one on every status transition,
+   * and ends once the prediction is completed, failed or cancelled. Breaking out of the loop stops polling.
+   *
+   * @param options Polling options, see Prediction.wait
+   * @throws PredictionTimeoutError if the prediction does not finish before `options.timeout`
+   * @throws WaveSpeedAbortError if the signal is aborted before the prediction finishes
+   */
+  async *stream(options: StreamOptions = {}): AsyncGenerator<Prediction<M>, void, undefined> {
+    yield this.snapshot();
+    for await (const _progress of this.poll(options)) {
+      yield this.snapshot();
+    }
+  }
+
+  /**
+   * Poll the prediction until it reaches a terminal status, yielding on every status transition
+   * @private
+   */
+  private async *poll(options: StreamOptions): AsyncGenerator<WaitProgress<M>, void, undefined> {
+    const {
+      signal,
+      timeout,
+      pollInterval = this.client.pollInterval,
+      backoff = 'fixed',
+      maxPollInterval = 10,
+    } = options;
+    const startedAt = Date.now();
+
+    // The deadline and cancellation abort in-flight requests and sleeps the same way a caller abort does
+    let controller: AbortController | undefined;
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    let cancellation: { data: any } | undefined;
+    let stopWatching = () => {};
+    const onAbort = () => controller!.abort(signal!.reason);
+    if (!isTerminalStatus(this.status)) {
+      controller = new AbortController();
+      if (signal?.aborted) {
+        controller.abort(signal.reason);
+      }
+      signal?.addEventListener('abort', onAbort);
+      if (timeout !== undefined) {
+        deadlineTimer = setTimeout(() => {
+          timedOut = true;
+          controller!.abort();
+        }, timeout * 1000);
+      }
+      stopWatching = this.client._onCancel(this.id, data => {
+        cancellation = { data };
+        controller!.abort();
+      });
+    }
+    const pollSignal = controller ? controller.signal : signal;
+
+    try {
+      let lastStatus = this.status;
+      let interval = pollInterval;
+      let first = true;
+      while (!cancellation && !isTerminalStatus(this.status)) {
+        const delay = first ? 0 : interval * 1000;
+        if (!first && backoff === 'exponential') {
+          interval = Math.min(interval * 2, maxPollInterval);
+        }
+        first = false;
+
+        if (this.client.pollScheduler) {
+          await this.client.pollScheduler.schedule(this, delay, pollSignal);
+        } else {
+          if (delay > 0) {
+            await sleep(delay, pollSignal);
           }
-        } catch (error) {
-          reject(error);
+          await this.reload({ signal: pollSignal });
         }
-      };
 
-      checkStatus();
-    });
+        if (this.status !== lastStatus) {
+          lastStatus = this.status;
+          interval = pollInterval;
+          const elapsed = (Date.now() - startedAt) / 1000;
+          this.client.logger.info(`Prediction ${this.id} is ${this.status}`, {
+            model: this.model,
+            predictionId: this.id,
+            status: this.status,
+            elapsed,
+          });
+          yield { status: this.status, elapsed, prediction: this };
+        }
+      }
+    } catch (error) {
+      if (!cancellation || !(error instanceof WaveSpeedAbortError)) {
+        if (timedOut && error instanceof WaveSpeedAbortError) {
+          throw new PredictionTimeoutError(this, timeout! * 1000);
+        }
+        throw error;
+      }
+    } finally {
+      clearTimeout(deadlineTimer);
+      signal?.removeEventListener('abort', onAbort);
+      stopWatching();
+    }
+
+    // A cancellation wins over a status an in-flight poll may have read just before it
+    if (cancellation) {
+      this._update({ ...this.toJSON(), ...cancellation.data });
+      yield { status: this.status, elapsed: (Date.now() - startedAt) / 1000, prediction: this };
+    }
+  }
+
+  /**
+   * Copy of the prediction that is not affected by later reloads
+   * @private
+   */
+  private snapshot(): Prediction<M> {
+    return new Prediction<M>(this, this.client);
   }
 
   /**
    * Reload the prediction status
+   *
+   * @param options Additional fetch options, e.g. an AbortSignal
    */
-  async reload(): Promise<Prediction> {
-    const response = await this.client.fetchWithTimeout(`predictions/${this.id}/result`);
+  async reload(options: RequestOptions = {}): Promise<Prediction<M>> {
+    const response = await this.client.fetchWithTimeout(`predictions/${this.id}/result`, options);
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to reload prediction: ${response.status} ${errorText}`);
+      throw await createAPIError(response, 'Failed to reload prediction');
     }
 
-    const data = await response.json();
-    const updatedPrediction = new Prediction(data.data, this.client);
+    const data = await readJSONResponse(response, 'Failed to reload prediction');
+    this._update(data.data);
 
-    // Update this instance with new data
-    Object.assign(this, updatedPrediction);
+    return this;
+  }
 
+  /**
+   * Outputs returned inline, with `base64Output`, as objects decoding them on demand
+   *
+   * `outputs` keeps the base64 strings as returned by the API. Nothing is decoded until
+   * `bytes()` or `blob()` is called on an output.
+   *
+   * @returns One entry per output, in output order, or null for outputs that are URLs
+   */
+  inlineOutputs(): (InlineOutput | null)[] {
+    const outputs: unknown[] = Array.isArray(this.outputs) ? this.outputs : [this.outputs];
+    return outputs.map((output, index) => isInlineOutput(output) ? new InlineOutput(output, index) : null);
+  }
+
+  /**
+   * Cancel the prediction on the server, see WaveSpeed.cancel
+   *
+   * @param options Additional fetch options, e.g. an AbortSignal
+   * @returns The prediction, with status `cancelled`
+   */
+  async cancel(options: RequestOptions = {}): Promise<Prediction<M>> {
+    const stopWatching = this.client._onCancel(this.id, data => this._update({ ...this.toJSON(), ...data }));
+    try {
+      await this.client.cancel(this.id, options);
+    } finally {
+      stopWatching();
+    }
     return this;
   }
+
+  /**
+   * Download the outputs to files, in Node.js
+   *
+   * Outputs are streamed to disk through the client's retry and timeout handling, with the file
+   * extension inferred from the Content-Type.
+   *
+   * @param options Directory, file name template, concurrency, `skipNsfw` and fetch options
+   * @returns Paths of the written files, in output order
+   */
+  async download(options: DownloadOptions = {}): Promise<string[]> {
+    return downloadOutputs(this.client, this, options);
+  }
+
+  /**
+   * Download the outputs as Blobs, e.g. to display them in the browser
+   *
+   * @param options Concurrency, `skipNsfw` and fetch options
+   */
+  async outputBlobs(options: OutputBlobsOptions = {}): Promise<Blob[]> {
+    return fetchOutputBlobs(this.client, this, options);
+  }
+
+  /**
+   * Copy the outputs into permanent storage and record their locations in `persistedOutputs`
+   *
+   * @param storage Storage adapter and key template (default: the client's `storage`)
+   * @param options Options of the download requests, e.g. an AbortSignal
+   * @returns Persisted location of each output, in output order, or null for skipped outputs
+   * @throws StorageError carrying this prediction in `prediction` if an output cannot be stored
+   */
+  async persist(storage?: StorageOptions, options: RequestOptions = {}): Promise<(string | null)[]> {
+    const target = storage || this.client.storage;
+    if (!target) {
+      throw new WaveSpeedError('No storage configured; pass storage options or set the storage client option');
+    }
+    try {
+      this.persistedOutputs = await persistOutputs(this.client, this, target, options);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        error.prediction = this;
+      }
+      if (!(error instanceof WaveSpeedAbortError)) {
+        this.client.logger.debug('Failed to persist outputs', { model: this.model, predictionId: this.id, ...errorFields(error) });
+      }
+      throw error;
+    }
+    return this.persistedOutputs;
+  }
+
+  /**
+   * Update this instance with prediction data returned by the API
+   * @param data Prediction data
+   * @private
+   */
+  _update(data: any): void {
+    // The idempotency key and persisted outputs are only known client side
+    const updatedPrediction = new Prediction<M>({
+      idempotencyKey: this.idempotencyKey,
+      persistedOutputs: this.persistedOutputs,
+      ...data
+    }, this.client);
+    Object.assign(this, updatedPrediction);
+  }
 }
 
 /**
@@ -121,17 +618,66 @@ export class WaveSpeed {
   private baseUrl: string = 'https://api.wavespeed.ai/api/v3/';
   readonly pollInterval: number;
   readonly timeout: number;
+  readonly pollScheduler?: PollScheduler;
+  readonly rateLimiter?: RateLimiter;
+  readonly retryPolicy: RetryPolicy;
+  readonly circuitBreaker?: CircuitBreaker;
+  readonly logger: Logger;
+  /** Model catalog, with cached model metadata and input schemas */
+  readonly models: ModelCatalog;
+  /** Prediction history, listed page by page */
+  readonly predictions: PredictionHistory;
+  /** Validate inputs against the model schema before creating predictions */
+  validateInput: boolean;
+  /** Upload local files found in the input of predictions and send their URLs instead */
+  autoUpload: AutoUploadOptions | boolean;
+  /** Storage that `run` copies completed outputs into */
+  readonly storage?: StorageOptions;
+  /** Time budget and chunking of uploads */
+  readonly uploadConfig: Required<UploadConfig>;
+  /** Timeout in seconds of `sync` create requests */
+  readonly syncTimeout: number;
+  private readonly fetchImpl?: FetchFunction;
+  private middleware: Middleware[] = [];
+  private cancelListeners = new Map<string, Set<(data: any) => void>>();
+  /** Cleared once the API turns out to have no chunked upload endpoint */
+  private chunkedUploads = true;
 
   /**
    * Create a new WaveSpeed client
    * 
    * @param apiKey Your WaveSpeed API key (or set WAVESPEED_API_KEY environment variable)
-   * @param options Additional client options
+   * @param options Additional client options. Set `pollScheduler` to share status polls
+   * of all waiting predictions through one rate limited scheduler, and `rateLimit` to
+   * throttle every request of the client. `retry` sets the default retry policy and
+   * `circuitBreaker` enables failing fast after repeated upstream failures. `logger` and
+   * `logLevel` (default: 'warn') control where and how much the client logs. `fetch`
+   * replaces the fetch implementation, and `transport` configures proxy, keep-alive and
+   * certificate authorities of a Node.js transport used instead of the global fetch.
+   * `validateInput` checks inputs against the model schemas, which `models` can provide offline.
+   * `upload` sets the time budget of uploads and when and how files are uploaded in chunks.
+   * `autoUpload` (default: on) controls uploading the local files found in prediction inputs.
+   * `storage` makes `run` copy the outputs into permanent storage. `syncTimeout` (default: 300)
+   * is the timeout in seconds of `sync` create requests, which last as long as the prediction.
    */
   constructor(apiKey?: string, options: {
     baseUrl?: string,
     pollInterval?: number,
-    timeout?: number
+    timeout?: number,
+    pollScheduler?: PollSchedulerOptions | boolean,
+    rateLimit?: RateLimiterOptions,
+    retry?: RetryPolicy,
+    circuitBreaker?: CircuitBreakerOptions | boolean,
+    logger?: Logger,
+    logLevel?: LogLevel,
+    fetch?: FetchFunction,
+    transport?: TransportOptions,
+    validateInput?: boolean,
+    autoUpload?: AutoUploadOptions | boolean,
+    models?: ModelCatalogOptions,
+    upload?: UploadConfig,
+    storage?: StorageOptions,
+    syncTimeout?: number
   } = {}) {
     // Browser-friendly environment variable handling
     const getEnvVar = (name: string): string | undefined => {
@@ -145,7 +691,7 @@ export class WaveSpeed {
     this.apiKey = apiKey || getEnvVar('WAVESPEED_API_KEY') || '';
 
     if (!this.apiKey) {
-      throw new Error('API key is required. Provide it as a parameter or set the WAVESPEED_API_KEY environment variable.');
+      throw new WaveSpeedError('API key is required. Provide it as a parameter or set the WAVESPEED_API_KEY environment variable.');
     }
 
     if (options.baseUrl) {
@@ -154,6 +700,45 @@ export class WaveSpeed {
 
     this.pollInterval = options.pollInterval || Number(getEnvVar('WAVESPEED_POLL_INTERVAL')) || 0.5;
     this.timeout = options.timeout || Number(getEnvVar('WAVESPEED_TIMEOUT')) || 120;
+    this.syncTimeout = options.syncTimeout || 300;
+
+    this.logger = createLogger(options.logger, options.logLevel || 'warn', this.apiKey);
+    this.models = new ModelCatalog(this, options.models);
+    this.predictions = new PredictionHistory(this);
+    this.validateInput = options.validateInput || false;
+    this.autoUpload = options.autoUpload !== undefined ? options.autoUpload : true;
+    this.uploadConfig = { ...DEFAULT_UPLOAD_CONFIG, ...options.upload };
+    this.storage = options.storage;
+    if (options.fetch) {
+      this.fetchImpl = options.fetch;
+    } else if (options.transport) {
+      this.fetchImpl = createNodeFetch(options.transport);
+    }
+    this.retryPolicy = options.retry || {};
+    if (options.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker);
+    }
+
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+
+    if (options.pollScheduler) {
+      this.pollScheduler = new PollScheduler(this, options.pollScheduler === true ? {} : options.pollScheduler);
+    }
+  }
+
+  /**
+   * Add a middleware wrapping every request attempt made by the client
+   *
+   * Middleware run in the order they were added, once per attempt including retries.
+   *
+   * @param middleware Middleware to add
+   * @returns The client, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
@@ -163,91 +748,204 @@ export class WaveSpeed {
    * @param options Fetch options
    */
   async fetchWithTimeout(path: string, options: RequestOptions = {}): Promise<Response> {
-    const { timeout = this.timeout * 1000, ...fetchOptions } = options;
+    const { timeout = this.timeout * 1000, deadline, signal, retry, idempotencyKey, createBody, authorize, ...fetchOptions } = options;
+
+    // Requests to other hosts, such as a CDN, neither trip nor wait for the API circuit breaker
+    // and rate limiter, and skip the API middleware
+    const external = authorize === false;
+    const circuitBreaker = external ? undefined : this.circuitBreaker;
+    const rateLimiter = external ? undefined : this.rateLimiter;
 
     // Ensure headers exist
-    if (options.isUpload) {
-      fetchOptions.headers = {
+    let headers: Record<string, string>;
+    if (external) {
+      headers = toHeaderRecord(fetchOptions.headers);
+
+    } else if (options.isUpload) {
+      headers = {
         'Authorization': `Bearer ${this.apiKey}`,
-        ...(fetchOptions.headers || {}),
+        ...toHeaderRecord(fetchOptions.headers),
       };
 
     } else {
-      fetchOptions.headers = {
+      headers = {
         'Authorization': `Bearer ${this.apiKey}`,
         'content-type': 'application/json',
-        ...(fetchOptions.headers || {}),
+        ...toHeaderRecord(fetchOptions.headers),
       };
 
     }
 
-    // Default retry options
-    const maxRetries = options.maxRetries || 3;
-    const initialBackoff = 1000; // 1 second
+    // The same key is sent on every attempt so the server can deduplicate retries
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    // Every attempt goes through the middleware chain before reaching fetch. The global fetch
+    // is looked up on every request so that it can be replaced after the client is created.
+    const fetchImpl = this.fetchImpl || fetch;
+    const send = composeMiddleware(external ? [] : this.middleware, request => fetchImpl(request.url, {
+      ...fetchOptions,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal
+    }));
+
+    // Retry policy of the client, overridden by the request
+    const policy = resolveRetryPolicy(this.retryPolicy, retry, { maxRetries: options.maxRetries });
+    const method = (fetchOptions.method || 'GET').toUpperCase();
+    const idempotent = policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method) || !!idempotencyKey;
+    const startedAt = Date.now();
     let retryCount = 0;
 
-    // Function to determine if a response should be retried
-    const shouldRetry = (response: Response): boolean => {
-      // Retry on rate limit (429) for all requests
-      // For GET requests, also retry on server errors (5xx)
-      const method = (fetchOptions.method || 'GET').toUpperCase();
-      return response.status === 429 || (method === 'GET' && response.status >= 500);
+    // Delay before the next retry, or undefined if the retries or the retry budget are used up
+    const nextRetryDelay = (retryAfter?: number): number | undefined => {
+      if (retryCount >= policy.maxRetries) {
+        return undefined;
+      }
+      const delay = retryAfter !== undefined
+        ? retryAfter
+        : this._getBackoffTime(retryCount + 1, policy.baseDelay, policy.jitter, policy.maxDelay);
+      if (Date.now() - startedAt + delay > policy.retryBudget || (deadline !== undefined && Date.now() + delay >= deadline)) {
+        return undefined;
+      }
+      return delay;
     };
 
     while (true) {
-      // Use AbortController for timeout (supported in modern browsers)
+      throwIfAborted(signal);
+      circuitBreaker?.check();
+
+      // Wait for our turn when a client-side rate limit is configured
+      const release = rateLimiter ? await rateLimiter.acquire(signal || undefined) : undefined;
+
+      // Use AbortController for timeout (supported in modern browsers),
+      // and forward aborts of the caller's signal to it
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      let timedOut = false;
+      const attemptTimeout = deadline !== undefined ? Math.max(0, Math.min(timeout, deadline - Date.now())) : timeout;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, attemptTimeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort);
+      let outcomeRecorded = false;
+      const attemptStartedAt = Date.now();
 
       try {
         // Construct the full URL by joining baseUrl and path
         const url = new URL(path.startsWith('/') ? path.substring(1) : path, this.baseUrl).toString();
 
-        const response = await fetch(url, {
-          ...fetchOptions,
+        const response = await send({
+          method,
+          url,
+          headers: { ...headers },
+          body: createBody ? createBody() : fetchOptions.body,
+          attempt: retryCount + 1,
           signal: controller.signal
         });
+        release?.();
+        this.logger.debug(`${method} ${path} ${response.status}`, {
+          method,
+          path,
+          status: response.status,
+          attempt: retryCount + 1,
+          latency: Date.now() - attemptStartedAt,
+          requestId: getRequestId(response),
+        });
+
+        if (response.status >= 500) {
+          circuitBreaker?.recordFailure();
+        } else {
+          circuitBreaker?.recordSuccess();
+        }
+        outcomeRecorded = true;
+
+        // Server back-off hints pause the whole client, not only this request
+        const retryAfter = getRetryAfter(response);
+        if (retryAfter !== undefined && rateLimiter) {
+          rateLimiter.pause(retryAfter);
+        }
 
-        // If the response is successful or we've used all retries, return it
-        if (response.ok || !shouldRetry(response) || retryCount >= maxRetries) {
+        // Return the response unless it failed with a retryable status and retries are left
+        const retryable = policy.retryableStatuses.includes(response.status) &&
+          (response.status === 429 || idempotent);
+        const backoffTime = !response.ok && retryable ? nextRetryDelay(retryAfter) : undefined;
+        if (backoffTime === undefined) {
           return response;
         }
 
         // Otherwise, increment retry count and wait before retrying
         retryCount++;
-        const backoffTime = this._getBackoffTime(retryCount, initialBackoff);
 
-        // Log retry information if console is available
-        if (typeof console !== 'undefined') {
-          console.warn(`Request failed with status ${response.status}. Retrying (${retryCount}/${maxRetries}) in ${Math.round(backoffTime)}ms...`);
-        }
+        // Log retry information
+        this.logger.warn(`Request failed with status ${response.status}. Retrying (${retryCount}/${policy.maxRetries}) in ${Math.round(backoffTime)}ms...`, {
+          method,
+          path,
+          status: response.status,
+          attempt: retryCount,
+          delay: Math.round(backoffTime),
+          requestId: getRequestId(response),
+        });
 
         // Wait for backoff time before retrying
-        await new Promise(resolve => setTimeout(resolve, backoffTime));
+        await sleep(backoffTime, signal);
 
       } catch (error) {
-        // If the error is due to timeout or network issues and we have retries left
-        if (error instanceof Error &&
-          (error.name === 'AbortError' || error.name === 'TypeError') &&
-          retryCount < maxRetries) {
+        // Cancellation by the caller is never retried
+        if (signal?.aborted) {
+          throw error instanceof WaveSpeedAbortError ? error : new WaveSpeedAbortError(signal.reason);
+        }
 
+        // Errors are recognized by name, since fetch may throw errors of another realm
+        const errorName = error && typeof error === 'object' ? (error as Error).name : undefined;
+        const errorType: RetryableErrorType | undefined = errorName === 'AbortError' ? 'timeout'
+          : errorName === 'TypeError' ? 'network'
+          : undefined;
+        if (errorType && !outcomeRecorded) {
+          circuitBreaker?.recordFailure();
+          outcomeRecorded = true;
+        }
+
+        // If the error is due to timeout or network issues and we have retries left
+        const backoffTime = errorType && policy.retryableErrors.includes(errorType) && idempotent
+          ? nextRetryDelay()
+          : undefined;
+        if (backoffTime !== undefined) {
           retryCount++;
-          const backoffTime = this._getBackoffTime(retryCount, initialBackoff);
 
-          // Log retry information if console is available
-          if (typeof console !== 'undefined') {
-            console.warn(`Request failed with error: ${error.message}. Retrying (${retryCount}/${maxRetries}) in ${Math.round(backoffTime)}ms...`);
-          }
+          // Log retry information
+          this.logger.warn(`Request failed with error: ${(error as Error).message}. Retrying (${retryCount}/${policy.maxRetries}) in ${Math.round(backoffTime)}ms...`, {
+            method,
+            path,
+            attempt: retryCount,
+            delay: Math.round(backoffTime),
+            latency: Date.now() - attemptStartedAt,
+            error: (error as Error).message,
+          });
 
           // Wait for backoff time before retrying
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
+          await sleep(backoffTime, signal);
 
+        } else if (errorType === 'timeout' && timedOut) {
+          this.logger.debug(`Request to ${path} timed out after ${attemptTimeout}ms`, { method, path, attempt: retryCount + 1, timeout: attemptTimeout });
+          throw new WaveSpeedTimeoutError(`Request to ${path} timed out after ${attemptTimeout}ms`, attemptTimeout);
+        } else if (errorType === 'network') {
+          this.logger.debug(`Request to ${path} failed`, { method, path, attempt: retryCount + 1, error: (error as Error).message });
+          throw new WaveSpeedNetworkError(`Request to ${path} failed: ${(error as Error).message}`, error);
         } else {
-          // If we're out of retries or it's a non-retryable error, throw it
+          // Non-retryable error, throw it as is
           throw error;
         }
       } finally {
+        release?.();
+        if (!outcomeRecorded) {
+          circuitBreaker?.recordAbandoned();
+        }
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
       }
     }
   }
@@ -256,35 +954,148 @@ export class WaveSpeed {
    * Calculate backoff time with exponential backoff and jitter
    * @param retryCount Current retry attempt number
    * @param initialBackoff Initial backoff time in ms
+   * @param jitter Jitter strategy
+   * @param maxBackoff Upper bound of the backoff time in ms
    * @returns Backoff time in ms
    * @private
    */
-  _getBackoffTime(retryCount: number, initialBackoff: number): number {
-    const backoff = initialBackoff * Math.pow(2, retryCount);
-    // Add jitter (random value between 0 and backoff/2)
-    return backoff + Math.random() * (backoff / 2);
+  _getBackoffTime(
+    retryCount: number,
+    initialBackoff: number,
+    jitter: JitterStrategy = 'additive',
+    maxBackoff: number = Infinity
+  ): number {
+    const backoff = Math.min(initialBackoff * Math.pow(2, retryCount), maxBackoff);
+    switch (jitter) {
+      case 'none':
+        return backoff;
+      case 'full':
+        return Math.random() * backoff;
+      case 'equal':
+        return backoff / 2 + Math.random() * (backoff / 2);
+      default:
+        // Add jitter (random value between 0 and backoff/2)
+        return Math.min(backoff + Math.random() * (backoff / 2), maxBackoff);
+    }
   }
 
   /**
    * Generate an image and wait for the result
    * 
    * @param modelId Model ID to use for prediction
-   * @param input Input parameters for the prediction
-   * @param options Additional fetch options
+   * @param input Input parameters for the prediction, typed for models registered in the ModelMap
+   * @param options Additional fetch options; `signal` also cancels polling. With the `storage`
+   * client option, the outputs are copied into storage unless `persist` is false. With `sync`,
+   * predictions that finish within the create request are returned without polling.
+   * @param waitOptions Options for waiting on the prediction, see Prediction.wait
+   */
+  async run<M extends AnyModelId>(
+    modelId: M,
+    input: WithFileInputs<ModelInput<M>>,
+    options?: RequestOptions,
+    waitOptions?: WaitOptions
+  ): Promise<Prediction<M>> {
+    const { persist = true, ...requestOptions } = options || {};
+    const prediction = await this.create(modelId, input, requestOptions);
+    const completed = await prediction.wait({ signal: requestOptions.signal || undefined, ...waitOptions });
+    if (this.storage && persist) {
+      await completed.persist(this.storage, { signal: requestOptions.signal });
+    }
+    return completed;
+  }
+
+  /**
+   * Run a model on many inputs with limited concurrency
+   *
+   * Never rejects because of a failing item: each item settles to either a completed
+   * prediction or the error it failed with, in input order.
+   *
+   * @param modelId Model ID to use for every prediction
+   * @param inputs Input parameters, one per prediction
+   * @param options Concurrency, error handling and per-item options
    */
-  async run(modelId: string, input: Record<string, any>, options?: RequestOptions): Promise<Prediction> {
-    const prediction = await this.create(modelId, input, options);
-    return prediction.wait();
+  async runMany<M extends AnyModelId>(
+    modelId: M,
+    inputs: WithFileInputs<ModelInput<M>>[],
+    options?: RunManyOptions
+  ): Promise<BatchResult<M>[]> {
+    return this.runBatch(inputs.map(input => ({ modelId, input })), options) as Promise<BatchResult<M>[]>;
+  }
+
+  /**
+   * Run a batch of predictions, possibly on different models, with limited concurrency
+   *
+   * @param items Model ID and input of each prediction
+   * @param options Concurrency, error handling and per-item options
+   */
+  async runBatch(items: BatchItem[], options: RunManyOptions = {}): Promise<BatchResult[]> {
+    const { concurrency = 4, stopOnError = false, onItemDone, signal, requestOptions, waitOptions } = options;
+
+    // Aborted by the caller's signal, or by the first failure when stopOnError is set
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    const results: BatchResult[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        const { modelId, input } = items[index];
+        let result: BatchResult;
+        try {
+          throwIfAborted(controller.signal);
+          const prediction = await this.run(
+            modelId,
+            input,
+            { ...requestOptions, signal: controller.signal },
+            { ...waitOptions, signal: controller.signal }
+          );
+          result = { status: 'fulfilled', prediction };
+        } catch (error) {
+          result = { status: 'rejected', error: error as Error };
+          if (stopOnError && !controller.signal.aborted) {
+            controller.abort(error);
+          }
+        }
+        try {
+          onItemDone?.(result, index);
+        } catch (error) {
+          // A throwing callback fails its item rather than the whole batch
+          result = { status: 'rejected', error: error as Error };
+          if (stopOnError && !controller.signal.aborted) {
+            controller.abort(error);
+          }
+        }
+        results[index] = result;
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return results;
   }
 
   /**
    * Create a prediction without waiting for it to complete
+   *
+   * Local files in the input, such as Blobs, Buffers and streams, are uploaded in parallel and
+   * replaced with their URLs, unless `autoUpload` is disabled.
    * 
    * @param modelId Model ID to use for prediction
-   * @param input Input parameters for the prediction
-   * @param options Additional fetch options
+   * @param input Input parameters for the prediction, typed for models registered in the ModelMap
+   * @param options Additional fetch options. An idempotency key is generated unless
+   * `options.idempotencyKey` is given, so that the request can be retried safely. With `sync`,
+   * the API answers once the prediction finishes; it may still return a running prediction,
+   * which `wait()` then polls as usual.
    */
-  async create(modelId: string, input: Record<string, any>, options?: RequestOptions): Promise<Prediction> {
+  async create<M extends AnyModelId>(modelId: M, input: WithFileInputs<ModelInput<M>>, options?: RequestOptions): Promise<Prediction<M>> {
 
     // Build URL with webhook if provided in options
     let url = `${modelId}`;
@@ -292,52 +1103,258 @@ export class WaveSpeed {
       url += `?webhook=${options.webhook}`;
     }
 
-    const response = await this.fetchWithTimeout(url, {
+    const {
+      validateInput = this.validateInput,
+      autoUpload = this.autoUpload,
+      sync = false,
+      base64Output = false,
+      ...requestOptions
+    } = options || {};
+    const idempotencyKey = requestOptions.idempotencyKey === undefined
+      ? generateIdempotencyKey()
+      : requestOptions.idempotencyKey;
+    const startedAt = Date.now();
+
+    try {
+      // Send the URLs of local files, uploaded once per call
+      const uploaded = autoUpload
+        ? await uploadFileInputs(
+          input as ModelInput<M>,
+          async source => (await this.upload(source, { signal: requestOptions.signal })).download_url,
+          autoUpload === true ? {} : autoUpload
+        )
+        : input as ModelInput<M>;
+
+      // Catch invalid inputs before paying for a round trip, filling in the schema defaults
+      const body = validateInput
+        ? await this.models.validate(modelId, uploaded, { signal: requestOptions.signal })
+        : uploaded;
+
+      // Execution flags travel in the body, next to the model input
+      const payload: Record<string, unknown> = { ...body };
+      if (sync) {
+        payload.enable_sync_mode = true;
+      }
+      if (base64Output) {
+        payload.enable_base64_output = true;
+      }
+
+      const response = await this.fetchWithTimeout(url, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+        ...(sync ? { timeout: this.syncTimeout * 1000 } : {}),
+        ...requestOptions,
+        idempotencyKey
+      });
+
+      if (!response.ok) {
+        throw await createAPIError(response, 'Failed to create prediction');
+      }
+
+      const data = await readJSONResponse(response, 'Failed to create prediction');
+      if (data.code !== 200) {
+        throw new WaveSpeedAPIError(`Failed to create prediction: ${data.code} ${data.message}`, {
+          status: response.status,
+          code: data.code,
+          apiMessage: data.message,
+          requestId: getRequestId(response),
+          body: JSON.stringify(data),
+        });
+      }
+
+      const prediction = new Prediction<M>({ ...data.data, idempotencyKey: idempotencyKey || undefined }, this);
+      this.logger.info(`Prediction ${prediction.id} created`, {
+        model: modelId,
+        predictionId: prediction.id,
+        status: prediction.status,
+        requestId: getRequestId(response),
+        latency: Date.now() - startedAt,
+      });
+      return prediction;
+    } catch (error) {
+      if (!(error instanceof WaveSpeedAbortError)) {
+        this.logger.debug('Failed to create prediction', { model: modelId, ...errorFields(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a prediction by id, e.g. to resume waiting on it after a restart
+   *
+   * @param predictionId ID of the prediction
+   * @param options Additional fetch options, e.g. an AbortSignal
+   */
+  async getPrediction<M extends AnyModelId = string>(predictionId: string, options: RequestOptions = {}): Promise<Prediction<M>> {
+    const prediction = new Prediction<M>({ id: predictionId }, this);
+    return prediction.reload(options);
+  }
+
+  /**
+   * Cancel a prediction on the server, stopping the job and its billing
+   *
+   * Pending `wait()` calls on the prediction settle with a PredictionCancelledError and
+   * `stream()` ends with a `cancelled` snapshot.
+   *
+   * @param predictionId ID of the prediction
+   * @param options Additional fetch options, e.g. an AbortSignal
+   * @returns The prediction, with status `cancelled`
+   * @throws WaveSpeedAPIError if the service refuses, e.g. because the prediction already finished
+   */
+  async cancel<M extends AnyModelId = string>(predictionId: string, options: RequestOptions = {}): Promise<Prediction<M>> {
+    // Cancelling twice does no harm, so the request is retried like a GET
+    const response = await this.fetchWithTimeout(`predictions/${predictionId}/cancel`, {
       method: 'POST',
-      body: JSON.stringify(input),
-      ...options
+      ...options,
+      retry: { retryNonIdempotent: true, ...options.retry },
     });
-
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to create prediction: ${response.status} ${errorText}`);
+      throw await createAPIError(response, `Failed to cancel prediction ${predictionId}`);
     }
 
-    const data = await response.json();
+    const data = await readJSONResponse(response, `Failed to cancel prediction ${predictionId}`);
     if (data.code !== 200) {
-      throw new Error(`Failed to create prediction: ${data.code} ${data}`);
+      throw new WaveSpeedAPIError(`Failed to cancel prediction ${predictionId}: ${data.code} ${data.message}`, {
+        status: response.status,
+        code: data.code,
+        apiMessage: data.message,
+        requestId: getRequestId(response),
+        body: JSON.stringify(data),
+      });
+    }
+
+    const cancelled = { ...data.data, id: predictionId, status: 'cancelled' };
+    this.logger.info(`Prediction ${predictionId} cancelled`, { model: cancelled.model, predictionId, requestId: getRequestId(response) });
+    for (const listener of Array.from(this.cancelListeners.get(predictionId) || [])) {
+      listener(cancelled);
     }
-    return new Prediction(data.data, this);
+    return new Prediction<M>(cancelled, this);
   }
 
   /**
-   * Upload a file (binary) to the /media/upload/binary endpoint
-   * @param filePath Absolute path to the file to upload
-   * @returns The API response JSON
+   * Register a callback for the cancellation of a prediction through this client
+   *
+   * @param predictionId ID of the prediction
+   * @param listener Receives the data of the cancelled prediction, which may be partial
+   * @returns A function removing the callback
+   * @private
    */
+  _onCancel(predictionId: string, listener: (data: any) => void): () => void {
+    let listeners = this.cancelListeners.get(predictionId);
+    if (!listeners) {
+      listeners = new Set();
+      this.cancelListeners.set(predictionId, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0 && this.cancelListeners.get(predictionId) === listeners) {
+        this.cancelListeners.delete(predictionId);
+      }
+    };
+  }
+
   /**
-   * Upload a file (binary) to the /media/upload/binary endpoint (browser Blob version)
-   * @param file Blob to upload
-   * @returns The API response JSON
+   * Rebuild a live prediction from its stored form, without a request
+   *
+   * @param serialized Output of `prediction.toJSON()`, or its JSON string
+   * @returns A prediction bound to this client, whose `wait()` resumes polling
+   * @throws WaveSpeedError if the JSON string is malformed or the data has no id
    */
-  async upload(file: Blob, options?: RequestOptions): Promise<string> {
-    const form = new FormData();
-    form.append('file', file);
-    // Only set Authorization header; browser will set Content-Type
-    if (options == null) {
-      options = { isUpload: true }
-    }
-    const response = await this.fetchWithTimeout('media/upload/binary', {
-      method: 'POST',
-      body: form,
-      ...options
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to upload file: ${response.status} ${errorText}`);
+  attach<M extends AnyModelId = string>(serialized: SerializedPrediction<M> | string): Prediction<M> {
+    let data: any = serialized;
+    if (typeof serialized === 'string') {
+      try {
+        data = JSON.parse(serialized);
+      } catch (error) {
+        throw new WaveSpeedError(`Cannot attach a prediction: invalid JSON (${(error as Error).message})`);
+      }
+    }
+    if (!data || typeof data.id !== 'string' || !data.id) {
+      throw new WaveSpeedError('Cannot attach a prediction without an id');
+    }
+    return new Prediction<M>(data, this);
+  }
+
+  /**
+   * Upload a file to the /media/upload/binary endpoint
+   *
+   * Accepts a file path or `file:` URL (Node.js only), a data URI, a Blob or File, a Buffer,
+   * Uint8Array or ArrayBuffer, or a web or Node.js readable stream. Files and streams are
+   * streamed rather than read into memory; a streamed body is never retried.
+   *
+   * Files of at least `chunkThreshold` bytes are uploaded in chunks, resuming from the last
+   * acknowledged chunk after network errors, or in a single request if the API has no chunked
+   * upload endpoint. The whole upload, retries included, has the time
+   * budget of the client's upload `timeout` rather than the request timeout.
+   *
+   * @param source Data to upload
+   * @param options File name and MIME type overrides, which are otherwise inferred, a progress
+   * callback, chunking and fetch options
+   * @returns Metadata of the uploaded file, including its `download_url`
+   */
+  async upload(source: UploadSource, options: UploadOptions = {}): Promise<UploadResult> {
+    const { filename, contentType, onProgress, chunked, chunkSize, ...requestOptions } = options;
+    const budget = this.uploadConfig.timeout * 1000;
+    const startedAt = Date.now();
+    let file: PreparedUpload | undefined;
+
+    try {
+      file = await prepareUpload(source, { filename, contentType }, onProgress);
+
+      if (this.chunkedUploads && file.blob && (chunked !== undefined ? chunked : file.blob.size >= this.uploadConfig.chunkThreshold)) {
+        const result = await uploadInChunks(this, file.blob, file.filename, {
+          chunkSize: chunkSize || this.uploadConfig.chunkSize,
+          maxResumes: this.uploadConfig.maxResumes,
+          path: this.uploadConfig.chunkedPath,
+          timeout: budget,
+          onProgress,
+          requestOptions,
+        });
+        if (result) {
+          this.logger.info('File uploaded', {
+            filename: result.filename,
+            size: result.size,
+            type: result.type,
+            chunked: true,
+            latency: Date.now() - startedAt,
+          });
+          return result;
+        }
+        // No chunked upload endpoint on this server: upload in a single request from now on
+        this.chunkedUploads = false;
+        this.logger.info('Chunked uploads are not available, uploading in a single request', { path: this.uploadConfig.chunkedPath });
+      }
+
+      // Only set Authorization header; fetch sets the multipart Content-Type of FormData
+      const body = file.body;
+      const response = await this.fetchWithTimeout('media/upload/binary', {
+        method: 'POST',
+        timeout: budget,
+        deadline: startedAt + budget,
+        ...requestOptions,
+        retry: { retryBudget: budget, ...requestOptions.retry },
+        ...(typeof body === 'function' ? { createBody: body, duplex: 'half' } : { body }),
+        headers: { ...toHeaderRecord(requestOptions.headers), ...file.headers },
+        ...(file.streaming ? { duplex: 'half', maxRetries: 0 } : {}),
+        isUpload: true
+      } as RequestOptions);
+      const result = await readUploadResponse<UploadResult>(response, 'Failed to upload file');
+
+      this.logger.info('File uploaded', {
+        filename: result.filename,
+        size: result.size,
+        type: result.type,
+        requestId: getRequestId(response),
+        latency: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      if (!(error instanceof WaveSpeedAbortError)) {
+        this.logger.debug('Failed to upload file', { filename: file?.filename, size: file?.size, ...errorFields(error) });
+      }
+      throw error;
     }
-    const resp: UploadFileResp = await response.json();
-    return resp.data.download_url
   }
 }
 
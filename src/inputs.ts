@@ -0,0 +1,177 @@
+import type { NodeReadableStream } from './upload';
+import { mapWithConcurrency } from './utils';
+
+/**
+ * Local file that can be passed as a model input value and is uploaded by `create`
+ */
+export type FileInput = Blob | ArrayBuffer | ArrayBufferView | ReadableStream<Uint8Array> | NodeReadableStream | URL;
+
+/**
+ * Input type whose string values may also be local files
+ */
+export type WithFileInputs<T> = string extends T
+  ? T | FileInput
+  : T extends (infer U)[]
+    ? WithFileInputs<U>[]
+    : T extends object
+      ? { [K in keyof T]: WithFileInputs<T[K]> }
+      : T;
+
+/**
+ * Options for uploading the local files of a model input
+ */
+export interface AutoUploadOptions {
+  /** Maximum number of files uploaded at once (default: 4) */
+  concurrency?: number;
+  /** Also upload `file://` URL strings, in Node.js (default: false) */
+  fileUrls?: boolean;
+}
+
+/**
+ * Blobs and binary data up to this size are hashed to upload identical files once
+ * @private
+ */
+const MAX_HASHED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Whether an input value is a local file to upload
+ * @private
+ */
+function isFileInput(value: unknown, fileUrls: boolean): boolean {
+  if (typeof value === 'string') {
+    return fileUrls && value.startsWith('file://');
+  }
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  return (typeof Blob !== 'undefined' && value instanceof Blob)
+    || value instanceof ArrayBuffer
+    || ArrayBuffer.isView(value)
+    || (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream)
+    || (typeof URL !== 'undefined' && value instanceof URL && value.protocol === 'file:')
+    || (typeof (value as NodeReadableStream).pipe === 'function' && typeof (value as NodeReadableStream)[Symbol.asyncIterator] === 'function');
+}
+
+/**
+ * Whether a value is a plain object or an array, whose values are searched for files
+ * @private
+ */
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Size in bytes of in-memory data small enough to hash, or undefined for other files
+ * @private
+ */
+function hashableSize(value: unknown): number | undefined {
+  const size = typeof Blob !== 'undefined' && value instanceof Blob ? value.size
+    : value instanceof ArrayBuffer || ArrayBuffer.isView(value) ? value.byteLength
+    : undefined;
+  return size !== undefined && size <= MAX_HASHED_SIZE ? size : undefined;
+}
+
+/**
+ * Key identifying the contents of in-memory data, or undefined if it cannot be hashed
+ * @private
+ */
+async function contentKey(value: Blob | ArrayBuffer | ArrayBufferView): Promise<string | undefined> {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) {
+    return undefined;
+  }
+  const bytes = typeof Blob !== 'undefined' && value instanceof Blob ? await value.arrayBuffer() : value as ArrayBuffer | ArrayBufferView;
+  const digest = new Uint8Array(await subtle.digest('SHA-256', bytes));
+  return `sha256:${Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Upload the local files found in a model input and replace them with their URLs
+ *
+ * Plain objects and arrays are searched recursively. The same file appearing several times,
+ * by reference, path or content, is uploaded once.
+ *
+ * @param input Model input
+ * @param upload Uploads one file and resolves to its URL
+ * @param options Concurrency and whether to upload `file://` URL strings
+ * @returns A copy of the input with URLs in place of files, or the input itself if it holds no files
+ * @private
+ */
+export async function uploadFileInputs<T>(
+  input: T,
+  upload: (source: FileInput) => Promise<string>,
+  options: AutoUploadOptions = {}
+): Promise<T> {
+  const { concurrency = 4, fileUrls = false } = options;
+
+  // Collect the files, once per reference or path
+  const identityKeys = new Map<unknown, unknown>();
+  const collect = (value: unknown) => {
+    if (isFileInput(value, fileUrls)) {
+      const key = typeof value === 'string' || value instanceof URL ? new URL(String(value)).href : value;
+      identityKeys.set(value, key);
+    } else if (isContainer(value)) {
+      for (const item of Array.isArray(value) ? value : Object.values(value)) {
+        collect(item);
+      }
+    }
+  };
+  collect(input);
+  if (identityKeys.size === 0) {
+    return input;
+  }
+
+  // Group files with identical contents. Files of different sizes differ, so only data sharing
+  // its size with another file is read and hashed.
+  const sizeCounts = new Map<number, number>();
+  for (const value of identityKeys.keys()) {
+    const size = hashableSize(value);
+    if (size !== undefined) {
+      sizeCounts.set(size, (sizeCounts.get(size) || 0) + 1);
+    }
+  }
+  const groups = new Map<unknown, FileInput>();
+  const groupKeys = new Map<unknown, unknown>();
+  for (const [value, identityKey] of identityKeys) {
+    const size = hashableSize(value);
+    const hashed = size !== undefined && sizeCounts.get(size)! > 1
+      ? await contentKey(value as Blob | ArrayBuffer | ArrayBufferView)
+      : undefined;
+    const key = hashed || identityKey;
+    groupKeys.set(value, key);
+    if (!groups.has(key)) {
+      groups.set(key, typeof value === 'string' ? new URL(value) : value as FileInput);
+    }
+  }
+
+  // Upload every group with limited concurrency, stopping at the first failure
+  const urls = new Map<unknown, string>();
+  await mapWithConcurrency(Array.from(groups), concurrency, async ([key, source]) => {
+    urls.set(key, await upload(source));
+  });
+
+  const replace = (value: unknown): unknown => {
+    if (groupKeys.has(value)) {
+      return urls.get(groupKeys.get(value));
+    }
+    if (Array.isArray(value)) {
+      return value.map(replace);
+    }
+    if (isContainer(value)) {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = replace(item);
+      }
+      return copy;
+    }
+    return value;
+  };
+  return replace(input) as T;
+}
@@ -0,0 +1,107 @@
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields attached to a log event
+ */
+export interface LogFields {
+  requestId?: string;
+  model?: string;
+  predictionId?: string;
+  attempt?: number;
+  /** Request latency in milliseconds */
+  latency?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Logger used by the client
+ *
+ * The signature matches winston and console. For pino, pass an adapter such as
+ * `{ warn: (message, fields) => pino.warn(fields, message), ... }`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Logger writing messages to the console
+ */
+export const consoleLogger: Logger = {
+  debug: message => console.debug(message),
+  info: message => console.info(message),
+  warn: message => console.warn(message),
+  error: message => console.error(message),
+};
+
+/**
+ * Wrap a logger so that it drops events below the given level and never sees the API key
+ *
+ * @param logger Logger to wrap (default: the console)
+ * @param level Minimum level of the events to forward
+ * @param apiKey Secret to redact from messages and fields
+ * @private
+ */
+export function createLogger(logger: Logger = consoleLogger, level: LogLevel = 'warn', apiKey?: string): Logger {
+  const minimum = LEVELS.indexOf(level);
+  const emit = (eventLevel: Exclude<LogLevel, 'silent'>) => (message: string, fields?: LogFields) => {
+    if (LEVELS.indexOf(eventLevel) < minimum || typeof logger[eventLevel] !== 'function') {
+      return;
+    }
+    const redactedMessage = redact(message, apiKey) as string;
+    if (fields === undefined) {
+      logger[eventLevel](redactedMessage);
+    } else {
+      logger[eventLevel](redactedMessage, redact(fields, apiKey) as LogFields);
+    }
+  };
+
+  return {
+    debug: emit('debug'),
+    info: emit('info'),
+    warn: emit('warn'),
+    error: emit('error'),
+  };
+}
+
+/**
+ * Structured fields describing an error
+ * @private
+ */
+export function errorFields(error: unknown): LogFields {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  const { status, code, requestId } = error as Error & { status?: number; code?: number; requestId?: string };
+  return { error: error.message, errorName: error.name, status, code, requestId };
+}
+
+/**
+ * Replace the API key and authorization values anywhere in a log value
+ * @private
+ */
+function redact(value: unknown, apiKey?: string): unknown {
+  if (typeof value === 'string') {
+    return apiKey ? value.split(apiKey).join(REDACTED) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, apiKey));
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = /^(authorization|api[-_]?key)$/i.test(key) ? REDACTED : redact(item, apiKey);
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,67 @@
+/**
+ * Request seen by middleware, once per attempt
+ */
+export interface MiddlewareRequest {
+  /** HTTP method */
+  method: string;
+  /** Full request URL */
+  url: string;
+  /** Request headers, including Authorization */
+  headers: Record<string, string>;
+  /** Request body */
+  body?: BodyInit | null;
+  /** Attempt number, starting at 1 and incremented on every retry */
+  attempt: number;
+  /** Signal aborted on timeout or caller cancellation */
+  signal: AbortSignal;
+}
+
+/**
+ * Handler passing a request to the next middleware, and eventually to fetch
+ */
+export type MiddlewareNext = (request?: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Middleware wrapping every request attempt made by the client
+ *
+ * Middleware may modify the request before calling `next`, inspect or replace the response
+ * it returns, or short-circuit by returning a response without calling `next`.
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>;
+
+/**
+ * Compose middleware around a final handler, the first middleware being the outermost
+ * @private
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: (request: MiddlewareRequest) => Promise<Response>
+): (request: MiddlewareRequest) => Promise<Response> {
+  return middleware.reduceRight<(request: MiddlewareRequest) => Promise<Response>>(
+    (next, current) => request => current(request, (nextRequest = request) => next(nextRequest)),
+    handler
+  );
+}
+
+/**
+ * Convert any HeadersInit into a plain object
+ * @private
+ */
+export function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  if (!headers) {
+    return {};
+  }
+  const record: Record<string, string> = {};
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+  } else if (Array.isArray(headers)) {
+    for (const [key, value] of headers) {
+      record[key] = value;
+    }
+  } else {
+    Object.assign(record, headers);
+  }
+  return record;
+}
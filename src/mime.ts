@@ -0,0 +1,121 @@
+/**
+ * MIME types of common media file extensions
+ * @private
+ */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  json: 'application/json',
+  txt: 'text/plain',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  glb: 'model/gltf-binary',
+};
+
+/**
+ * Fallback MIME type of unknown binary data
+ */
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * MIME type of a file name from its extension
+ *
+ * @param filename File name or path
+ * @returns The MIME type, or undefined if the extension is unknown
+ */
+export function mimeTypeFromFilename(filename: string): string | undefined {
+  const match = /\.([a-z0-9]+)$/i.exec(filename);
+  return match ? MIME_TYPES[match[1].toLowerCase()] : undefined;
+}
+
+/**
+ * File extension of a MIME type, without the dot
+ *
+ * @param mimeType MIME type, possibly with parameters such as `; charset=utf-8`
+ * @returns The extension, or undefined if the MIME type is unknown
+ */
+export function extensionFromMimeType(mimeType: string): string | undefined {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (type === 'image/jpeg') {
+    return 'jpg';
+  }
+  for (const [extension, candidate] of Object.entries(MIME_TYPES)) {
+    if (candidate === type) {
+      return extension;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detect the MIME type of binary data from its first bytes
+ *
+ * @param bytes Data, or at least its first 16 bytes
+ * @returns The MIME type, or undefined if the format is not recognized
+ */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+  const ascii = (offset: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 4) === 'GIF8') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') {
+    return 'audio/wav';
+  }
+  if (ascii(4, 4) === 'ftyp') {
+    const brand = ascii(8, 4);
+    if (brand.startsWith('avif')) {
+      return 'image/avif';
+    }
+    if (brand === 'qt  ') {
+      return 'video/quicktime';
+    }
+    return brand.startsWith('M4A') ? 'audio/mp4' : 'video/mp4';
+  }
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) {
+    return 'video/webm';
+  }
+  if (ascii(0, 3) === 'ID3' || startsWith([0xff, 0xfb]) || startsWith([0xff, 0xf3])) {
+    return 'audio/mpeg';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'audio/ogg';
+  }
+  if (ascii(0, 4) === 'fLaC') {
+    return 'audio/flac';
+  }
+  if (ascii(0, 4) === '%PDF') {
+    return 'application/pdf';
+  }
+  if (ascii(0, 4) === 'glTF') {
+    return 'model/gltf-binary';
+  }
+  return undefined;
+}
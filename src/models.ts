@@ -0,0 +1,70 @@
+/**
+ * Input of wavespeed-ai/flux-dev
+ */
+export interface FluxDevInput {
+  /** Text prompt describing the image */
+  prompt: string;
+  /** URL of an image to transform instead of generating from scratch */
+  image?: string;
+  /** How much the input image is transformed, from 0 to 1 */
+  strength?: number;
+  /** Size of the generated image as 'width*height', e.g. '1024*1024' */
+  size?: string;
+  /** Number of denoising steps */
+  num_inference_steps?: number;
+  /** How closely the image follows the prompt */
+  guidance_scale?: number;
+  /** Number of images to generate */
+  num_images?: number;
+  /** Random seed, -1 for a random one */
+  seed?: number;
+  /** Check the generated images for NSFW content */
+  enable_safety_checker?: boolean;
+}
+
+/**
+ * Registry mapping model ids to the types of their input and outputs
+ *
+ * Augment it to type private models:
+ *
+ * ```typescript
+ * declare module 'wavespeed' {
+ *   interface ModelMap {
+ *     'my-team/upscaler': { input: { image: string; scale?: 2 | 4 }; output: string[] };
+ *   }
+ * }
+ * ```
+ */
+export interface ModelMap {
+  'wavespeed-ai/flux-dev': { input: FluxDevInput; output: string[] };
+}
+
+/**
+ * Ids of the models registered in the ModelMap
+ */
+export type ModelId = Extract<keyof ModelMap, string>;
+
+/**
+ * Model id accepted by the client: a registered one, with autocompletion, or any other string
+ */
+export type AnyModelId = ModelId | (string & {});
+
+/**
+ * Input type of a model, or a loose record for models missing from the ModelMap
+ */
+export type ModelInput<M extends string> = M extends ModelId
+  ? ModelMap[M] extends { input: infer I } ? I : Record<string, any>
+  : Record<string, any>;
+
+/**
+ * Outputs type of a model, or a list of URLs for models missing from the ModelMap
+ */
+export type ModelOutput<M extends string> = M extends ModelId
+  ? ModelMap[M] extends { output: infer O } ? O : string[]
+  : string[];
+
+/**
+ * Ids of the models typed by the SDK itself
+ * @private
+ */
+export const BUILTIN_MODEL_IDS: string[] = ['wavespeed-ai/flux-dev'];
@@ -0,0 +1,99 @@
+import { DEFAULT_MIME_TYPE, detectMimeType } from './mime';
+import { decodeBase64, parseDataUri } from './utils';
+
+/**
+ * Whether an output holds its data inline, as a data URI or bare base64, rather than a URL
+ * @private
+ */
+export function isInlineOutput(output: unknown): output is string {
+  if (typeof output !== 'string') {
+    return false;
+  }
+  if (output.startsWith('data:')) {
+    return true;
+  }
+  // URLs always have a scheme, and base64 never contains a colon
+  const compact = output.replace(/\s/g, '');
+  return compact.length > 0 && compact.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(compact);
+}
+
+/**
+ * Output returned inline by the API, decoded only when asked for
+ *
+ * Returned by Prediction.inlineOutputs for predictions created with `base64Output`. The type
+ * and size are read without decoding the payload, which can be large.
+ */
+export class InlineOutput {
+  /** Position of the output in `prediction.outputs` */
+  readonly index: number;
+  private readonly data: string;
+  private readonly header?: { type?: string; base64: boolean; length: number };
+  private detectedType?: string;
+
+  constructor(data: string, index: number) {
+    this.data = data;
+    this.index = index;
+    const match = /^data:([^;,]*)((?:;[^;,]*)*),/.exec(data);
+    if (match) {
+      this.header = { type: match[1] || undefined, base64: match[2].split(';').includes('base64'), length: match[0].length };
+    }
+  }
+
+  /**
+   * MIME type, from the data URI or detected from the first bytes
+   */
+  get type(): string {
+    if (this.detectedType === undefined) {
+      if (this.header && this.header.type) {
+        this.detectedType = this.header.type;
+      } else {
+        // Enough base64 for every signature of detectMimeType, without decoding the rest
+        const head = this.header && !this.header.base64
+          ? this.bytes()
+          : decodeBase64(this.base64Payload().slice(0, 128).replace(/\s/g, '').slice(0, 64));
+        this.detectedType = detectMimeType(head) || DEFAULT_MIME_TYPE;
+      }
+    }
+    return this.detectedType;
+  }
+
+  /**
+   * Size of the decoded data in bytes
+   */
+  get size(): number {
+    if (this.header && !this.header.base64) {
+      return this.bytes().length;
+    }
+    const payload = this.base64Payload().replace(/\s/g, '');
+    return Math.floor(payload.length * 3 / 4) - (payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0);
+  }
+
+  /**
+   * Decode the data, e.g. to write it to a file in Node.js. Every call decodes again.
+   */
+  bytes(): Uint8Array {
+    return this.header ? parseDataUri(this.data).bytes : decodeBase64(this.data);
+  }
+
+  /**
+   * Decode the data as a Blob of the detected type, e.g. for `URL.createObjectURL` in browsers
+   */
+  blob(): Blob {
+    return new Blob([this.bytes()], { type: this.type });
+  }
+
+  /**
+   * The data as a data URI, e.g. for the `src` of an image, without decoding it
+   */
+  toDataUri(): string {
+    return this.header ? this.data : `data:${this.type};base64,${this.data}`;
+  }
+
+  /**
+   * Base64 payload of the output
+   * @private
+   */
+  private base64Payload(): string {
+    return this.header ? this.data.slice(this.header.length) : this.data;
+  }
+}
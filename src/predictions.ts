@@ -0,0 +1,123 @@
+import type { Prediction, PredictionStatus, RequestOptions, WaveSpeed } from './index';
+import type { AnyModelId } from './models';
+import { WaveSpeedAPIError, createAPIError, getRequestId, readJSONResponse } from './errors';
+
+/**
+ * Filters and page size of a prediction listing
+ */
+export interface PredictionListOptions<M extends AnyModelId = string> extends RequestOptions {
+  /** Only list predictions of this model */
+  model?: M;
+  /** Only list predictions with this status */
+  status?: PredictionStatus;
+  /** Only list predictions created at or after this time (Date, ISO string or epoch milliseconds) */
+  createdAfter?: Date | string | number;
+  /** Only list predictions created before this time (Date, ISO string or epoch milliseconds) */
+  createdBefore?: Date | string | number;
+  /** Number of predictions fetched per request (default: 50) */
+  pageSize?: number;
+}
+
+/**
+ * One page of a prediction listing
+ */
+export interface PredictionPage<M extends AnyModelId = string> {
+  predictions: Prediction<M>[];
+  /** Page number, starting at 1 */
+  page: number;
+  pageSize: number;
+  /** Number of predictions matching the filters, if reported by the API */
+  total?: number;
+  /** Whether a next page exists */
+  hasMore: boolean;
+}
+
+/**
+ * ISO 8601 form of a time filter
+ * @private
+ */
+function toISOString(time: Date | string | number): string {
+  return (time instanceof Date ? time : new Date(time)).toISOString();
+}
+
+/**
+ * Prediction history of the account, available as `client.predictions`
+ */
+export class PredictionHistory {
+  constructor(private client: WaveSpeed) {}
+
+  /**
+   * List past predictions, newest first, fetching the pages as the iteration goes
+   *
+   * ```typescript
+   * for await (const prediction of client.predictions.list({ status: 'failed' })) {
+   *   console.log(prediction.id, prediction.error);
+   * }
+   * ```
+   *
+   * Stop iterating at any time; later pages are then never fetched.
+   *
+   * @param options Model, status and creation time filters, page size and fetch options
+   */
+  async *list<M extends AnyModelId = string>(options: PredictionListOptions<M> = {}): AsyncGenerator<Prediction<M>, void, undefined> {
+    for (let page = 1; ; page++) {
+      const result = await this.page(page, options);
+      yield* result.predictions;
+      if (!result.hasMore) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fetch a single page of past predictions
+   *
+   * @param page Page number, starting at 1
+   * @param options Model, status and creation time filters, page size and fetch options
+   */
+  async page<M extends AnyModelId = string>(page: number, options: PredictionListOptions<M> = {}): Promise<PredictionPage<M>> {
+    const { model, status, createdAfter, createdBefore, pageSize = 50, ...requestOptions } = options;
+
+    const query = new URLSearchParams({ page: String(page), page_size: String(pageSize) });
+    if (model) {
+      query.set('model', model);
+    }
+    if (status) {
+      query.set('status', status);
+    }
+    if (createdAfter !== undefined) {
+      query.set('created_after', toISOString(createdAfter));
+    }
+    if (createdBefore !== undefined) {
+      query.set('created_before', toISOString(createdBefore));
+    }
+
+    const response = await this.client.fetchWithTimeout(`predictions?${query}`, requestOptions);
+    if (!response.ok) {
+      throw await createAPIError(response, 'Failed to list predictions');
+    }
+
+    const data = await readJSONResponse(response, 'Failed to list predictions');
+    if (data.code !== 200) {
+      throw new WaveSpeedAPIError(`Failed to list predictions: ${data.code} ${data.message}`, {
+        status: response.status,
+        code: data.code,
+        apiMessage: data.message,
+        requestId: getRequestId(response),
+        body: JSON.stringify(data),
+      });
+    }
+
+    const listing = data.data || {};
+    const items: any[] = listing.items || [];
+    const total: number | undefined = typeof listing.total === 'number' ? listing.total : undefined;
+    return {
+      predictions: items.map(item => this.client.attach<M>(item)),
+      page,
+      pageSize,
+      total,
+      // Without a total, a full page may be followed by more
+      hasMore: items.length > 0 && (total !== undefined ? page * pageSize < total : items.length === pageSize),
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { WaveSpeedAbortError } from './errors';
+
+/**
+ * Options for the client-side rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Sustained number of requests per second (default: unlimited) */
+  requestsPerSecond?: number;
+  /**
+   * Number of requests that may be sent at once above the sustained rate, at least 1
+   * (default: requestsPerSecond, or 1 below one request per second)
+   */
+  burst?: number;
+  /** Maximum number of requests in flight at once (default: unlimited) */
+  maxConcurrency?: number;
+}
+
+/**
+ * Snapshot of the rate limiter state
+ */
+export interface RateLimiterStats {
+  /** Requests waiting for their turn */
+  queued: number;
+  /** Requests currently in flight */
+  inFlight: number;
+  /** Requests that had to wait before being sent */
+  throttled: number;
+  /** Total time requests spent waiting, in milliseconds */
+  totalWaitTime: number;
+  /** Longest time a request spent waiting, in milliseconds */
+  maxWaitTime: number;
+  /** Time (epoch milliseconds) until which the client is paused by a server back-off hint, if any */
+  pausedUntil?: number;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  /** Could not be let through right away */
+  deferred: boolean;
+  signal?: AbortSignal;
+  resolve: (release: () => void) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+/**
+ * Token bucket and concurrency limiter shared by all requests of a client
+ *
+ * Requests are let through in FIFO order. A server back-off hint pauses every request of the
+ * client, not only the one that received it.
+ */
+export class RateLimiter {
+  readonly requestsPerSecond: number;
+  readonly burst: number;
+  readonly maxConcurrency: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Waiter[] = [];
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private throttled = 0;
+  private totalWaitTime = 0;
+  private maxWaitTime = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond || Infinity;
+    // The bucket must hold at least one whole token, or slow rates would never let a request through
+    const burst = options.burst || (Number.isFinite(this.requestsPerSecond) ? this.requestsPerSecond : Infinity);
+    this.burst = Math.max(1, burst);
+    this.maxConcurrency = options.maxConcurrency || Infinity;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Wait for the turn of a request
+   *
+   * @param signal Signal that gives up waiting
+   * @returns Function to call once the request is done
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new WaveSpeedAbortError(signal.reason));
+        return;
+      }
+
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        deferred: false,
+        signal,
+        resolve,
+        reject,
+        onAbort: () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(new WaveSpeedAbortError(signal!.reason));
+          this.drain();
+        },
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+      waiter.deferred = this.queue.includes(waiter);
+    });
+  }
+
+  /**
+   * Hold back every request for the given time, e.g. after a Retry-After hint
+   *
+   * @param ms Pause duration in milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  /**
+   * Current queue depth and wait time statistics
+   */
+  get stats(): RateLimiterStats {
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      throttled: this.throttled,
+      totalWaitTime: this.totalWaitTime,
+      maxWaitTime: this.maxWaitTime,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /**
+   * Let through as many queued requests as the limits allow
+   * @private
+   */
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.refill(now);
+
+      if (now < this.pausedUntil) {
+        this.timer = setTimeout(() => this.drain(), this.pausedUntil - now);
+        return;
+      }
+      if (this.inFlight >= this.maxConcurrency) {
+        // Resumed by the next release
+        return;
+      }
+      if (this.tokens < 1) {
+        const wait = Math.ceil((1 - this.tokens) * 1000 / this.requestsPerSecond);
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.tokens -= 1;
+      this.inFlight++;
+
+      if (waiter.deferred) {
+        const waited = now - waiter.enqueuedAt;
+        this.throttled++;
+        this.totalWaitTime += waited;
+        this.maxWaitTime = Math.max(this.maxWaitTime, waited);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.inFlight--;
+          this.drain();
+        }
+      });
+    }
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   * @private
+   */
+  private refill(now: number): void {
+    if (Number.isFinite(this.requestsPerSecond)) {
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.requestsPerSecond / 1000);
+    }
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,172 @@
+import { CircuitOpenError } from './errors';
+
+/**
+ * How random jitter is applied to the exponential backoff
+ * - `none`: exact exponential delay
+ * - `full`: random delay between 0 and the exponential delay
+ * - `equal`: half the exponential delay plus a random half
+ * - `additive`: the exponential delay plus up to 50% more
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'additive';
+
+/**
+ * Kinds of request errors that can be retried
+ */
+export type RetryableErrorType = 'timeout' | 'network';
+
+/**
+ * Retry policy of the client, overridable per request
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries of a request (default: 3) */
+  maxRetries?: number;
+  /** HTTP statuses that are retried (default: 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Request errors that are retried (default: timeout and network) */
+  retryableErrors?: RetryableErrorType[];
+  /**
+   * Also retry non-idempotent requests such as POST on server errors, timeouts and network errors.
+   * 429 responses are always retryable since the request was not processed. (default: false)
+   */
+  retryNonIdempotent?: boolean;
+  /** Base delay of the exponential backoff in milliseconds (default: 1000) */
+  baseDelay?: number;
+  /** Upper bound of the backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Jitter applied to the backoff delay (default: 'additive') */
+  jitter?: JitterStrategy;
+  /** Total time in milliseconds a request may spend including its retries (default: unlimited) */
+  retryBudget?: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  retryableStatuses: [429, 500, 502, 503, 504],
+  retryableErrors: ['timeout', 'network'],
+  retryNonIdempotent: false,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 'additive',
+  retryBudget: Infinity,
+};
+
+/**
+ * HTTP methods that can be repeated without side effects
+ */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Merge retry policies, later ones taking precedence over earlier ones
+ * @private
+ */
+export function resolveRetryPolicy(...policies: (RetryPolicy | undefined)[]): Required<RetryPolicy> {
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(policy)) {
+      if (value !== undefined) {
+        (resolved as any)[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Number of consecutive upstream failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before letting a trial request through (default: 30000) */
+  cooldown?: number;
+}
+
+/**
+ * State of the circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker failing requests fast after repeated upstream failures
+ *
+ * Server errors, timeouts and network errors count as failures. Once the threshold is reached
+ * the circuit opens and requests fail with a CircuitOpenError. After the cooldown the circuit
+ * half-opens and lets a single trial request through, whose outcome closes or re-opens it.
+ */
+export class CircuitBreaker {
+  readonly failureThreshold: number;
+  readonly cooldown: number;
+  private _state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold || 5;
+    this.cooldown = options.cooldown || 30000;
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Check that a request may be sent
+   *
+   * @throws CircuitOpenError if the circuit is open, or half-open with a trial request in flight
+   */
+  check(): void {
+    if (this._state === 'open') {
+      const retryAt = this.openedAt + this.cooldown;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(retryAt);
+      }
+      this._state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    if (this._state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(Date.now() + this.cooldown);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Record a request that reached a healthy upstream
+   */
+  recordSuccess(): void {
+    this._state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record an upstream failure
+   */
+  recordFailure(): void {
+    this.failures++;
+    if (this._state === 'half-open' || this.failures >= this.failureThreshold) {
+      this._state = 'open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Forget a request that ended without telling anything about the upstream, e.g. aborted by the caller
+   */
+  recordAbandoned(): void {
+    this.trialInFlight = false;
+  }
+}
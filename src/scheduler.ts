@@ -0,0 +1,239 @@
+import type { Prediction, WaveSpeed } from './index';
+import {
+  WaveSpeedAPIError,
+  WaveSpeedAbortError,
+  WaveSpeedNetworkError,
+  WaveSpeedTimeoutError,
+  createAPIError,
+  readJSONResponse,
+} from './errors';
+import { resolveRetryPolicy } from './retry';
+
+/**
+ * Options for the client-level poll scheduler
+ */
+export interface PollSchedulerOptions {
+  /** Maximum number of status requests in flight at once (default: 4) */
+  maxConcurrency?: number;
+  /** Maximum number of status requests started per second (default: 10) */
+  maxRequestsPerSecond?: number;
+  /**
+   * Path of a batch status endpoint. It receives `POST { ids: string[] }` and answers
+   * `{ data: PredictionData[] }`. Batching is turned off if the endpoint does not exist.
+   */
+  batchPath?: string;
+  /** Maximum number of predictions per batch request (default: 50) */
+  maxBatchSize?: number;
+}
+
+interface PollEntry {
+  prediction: Prediction;
+  dueAt: number;
+  signal?: AbortSignal;
+  settled: boolean;
+  /** Poll on its own, the batch endpoint did not answer for it */
+  individual?: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+/**
+ * Shared scheduler for status polls of many concurrent predictions
+ *
+ * Every waiting prediction registers the time of its next poll. A single timer starts the
+ * due polls while capping the number of requests in flight and the request rate, and groups
+ * them into batch requests when a batch endpoint is available.
+ */
+export class PollScheduler {
+  readonly maxConcurrency: number;
+  readonly maxRequestsPerSecond: number;
+  readonly maxBatchSize: number;
+  private batchPath?: string;
+  private queue: PollEntry[] = [];
+  private inFlight = 0;
+  private nextSlotAt = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private client: WaveSpeed, options: PollSchedulerOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency || 4;
+    this.maxRequestsPerSecond = options.maxRequestsPerSecond || 10;
+    this.maxBatchSize = options.maxBatchSize || 50;
+    this.batchPath = options.batchPath;
+  }
+
+  /**
+   * Number of predictions waiting for their next poll
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Refresh the status of a prediction after the given delay
+   *
+   * @param prediction Prediction to refresh
+   * @param delay Minimum delay before the poll in milliseconds
+   * @param signal Signal that removes the prediction from the schedule
+   * @returns Promise resolved once the prediction has been updated
+   */
+  schedule(prediction: Prediction, delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new WaveSpeedAbortError(signal.reason));
+        return;
+      }
+
+      const entry: PollEntry = {
+        prediction,
+        dueAt: Date.now() + delay,
+        signal,
+        settled: false,
+        resolve,
+        reject,
+        onAbort: () => {
+          this.queue = this.queue.filter(queued => queued !== entry);
+          this.settle(entry, new WaveSpeedAbortError(signal!.reason));
+          // Do not keep a timer, and the process, alive for a poll that is gone
+          this.arm();
+        },
+      };
+      signal?.addEventListener('abort', entry.onAbort);
+      this.queue.push(entry);
+      // Defer to the timer so that polls registered together can share a batch
+      this.arm();
+    });
+  }
+
+  /**
+   * Start as many due polls as the limits allow
+   * @private
+   */
+  private pump(): void {
+    while (this.inFlight < this.maxConcurrency && this.queue.length > 0) {
+      const now = Date.now();
+      const due = this.queue.filter(entry => entry.dueAt <= now);
+      if (due.length === 0 || now < this.nextSlotAt) {
+        break;
+      }
+
+      due.sort((a, b) => a.dueAt - b.dueAt);
+      const batch = this.batchPath && !due[0].individual
+        ? due.filter(entry => !entry.individual).slice(0, this.maxBatchSize)
+        : due.slice(0, 1);
+      this.queue = this.queue.filter(entry => !batch.includes(entry));
+      this.nextSlotAt = Math.max(now, this.nextSlotAt) + 1000 / this.maxRequestsPerSecond;
+
+      this.inFlight++;
+      this.run(batch).finally(() => {
+        this.inFlight--;
+        this.pump();
+      });
+    }
+
+    this.arm();
+  }
+
+  /**
+   * Arm the timer for the next due poll
+   * @private
+   */
+  private arm(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    if (this.queue.length > 0 && this.inFlight < this.maxConcurrency) {
+      const earliest = Math.min(...this.queue.map(entry => entry.dueAt));
+      const wakeAt = Math.max(earliest, this.nextSlotAt);
+      this.timer = setTimeout(() => this.pump(), Math.max(0, wakeAt - Date.now()));
+    }
+  }
+
+  /**
+   * Refresh a group of predictions, through the batch endpoint if there is more than one
+   * @private
+   */
+  private async run(batch: PollEntry[]): Promise<void> {
+    if (batch.length === 1 || !this.batchPath) {
+      await Promise.all(batch.map(async entry => {
+        try {
+          await entry.prediction.reload({ signal: entry.signal });
+          this.settle(entry);
+        } catch (error) {
+          this.settle(entry, error);
+        }
+      }));
+      return;
+    }
+
+    try {
+      const response = await this.client.fetchWithTimeout(this.batchPath, {
+        method: 'POST',
+        body: JSON.stringify({ ids: batch.map(entry => entry.prediction.id) }),
+      });
+
+      if (response.status === 404 || response.status === 405 || response.status === 501) {
+        // No batch endpoint on this server: poll individually from now on
+        this.batchPath = undefined;
+        this.queue.push(...batch.filter(entry => !entry.settled));
+        return;
+      }
+      if (!response.ok) {
+        throw await createAPIError(response, 'Failed to reload predictions');
+      }
+
+      const data = await readJSONResponse(response, 'Failed to reload predictions');
+      const byId = new Map<string, any>((data.data || []).map((item: any) => [item.id, item]));
+      for (const entry of batch.filter(entry => !entry.settled)) {
+        const item = byId.get(entry.prediction.id);
+        if (item) {
+          entry.prediction._update(item);
+          this.settle(entry);
+        } else {
+          // Not part of the batch answer, poll it on its own
+          entry.individual = true;
+          this.queue.push(entry);
+        }
+      }
+    } catch (error) {
+      if (!this.isTransient(error)) {
+        batch.forEach(entry => this.settle(entry, error));
+        return;
+      }
+      // Poll each prediction on its own, with the retries of a GET, rather than failing them all
+      for (const entry of batch.filter(entry => !entry.settled)) {
+        entry.individual = true;
+        this.queue.push(entry);
+      }
+    }
+  }
+
+  /**
+   * Whether a failed batch request is worth repeating as individual polls
+   * @private
+   */
+  private isTransient(error: unknown): boolean {
+    if (error instanceof WaveSpeedNetworkError || error instanceof WaveSpeedTimeoutError) {
+      return true;
+    }
+    return error instanceof WaveSpeedAPIError
+      && resolveRetryPolicy(this.client.retryPolicy).retryableStatuses.includes(error.status);
+  }
+
+  /**
+   * Resolve or reject an entry exactly once
+   * @private
+   */
+  private settle(entry: PollEntry, error?: unknown): void {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.signal?.removeEventListener('abort', entry.onAbort);
+    if (error === undefined) {
+      entry.resolve();
+    } else {
+      entry.reject(error);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * JSON Schema type names
+ */
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * Subset of JSON Schema describing model inputs
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * One reason why a value does not match its schema
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. `size` or `loras[0].scale` */
+  path: string;
+  /** JSON Schema keyword that failed, e.g. `enum` or `maximum` */
+  keyword: string;
+  /** Human readable description of the issue */
+  message: string;
+}
+
+/**
+ * Result of a schema validation
+ */
+export interface ValidationResult<T = unknown> {
+  /** The value with the defaults of missing properties filled in */
+  value: T;
+  /** Every issue found, empty if the value is valid */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Validate a value against a JSON Schema, collecting every issue instead of stopping at the first one
+ *
+ * The value is not modified: defaults are applied to a copy.
+ *
+ * @param schema Schema to validate against
+ * @param value Value to validate
+ */
+export function validateSchema<T = unknown>(schema: JSONSchema, value: T): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const result = validate(schema, value, '', issues);
+  return { value: result as T, issues };
+}
+
+/**
+ * Append a property or index to a field path
+ * @private
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * JSON Schema type of a value
+ * @private
+ */
+function typeOf(value: unknown): JSONSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JSONSchemaType;
+}
+
+/**
+ * Whether two JSON values are equal
+ * @private
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value, returning it with defaults applied
+ * @private
+ */
+function validate(schema: JSONSchema, value: unknown, path: string, issues: ValidationIssue[]): unknown {
+  const fail = (keyword: string, message: string) => {
+    issues.push({ path: path || '(input)', keyword, message: `${path || 'input'} ${message}` });
+  };
+
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    const matching = alternatives.filter(alternative => validateSchema(alternative, value).issues.length === 0);
+    if (matching.length === 0 || (schema.oneOf && matching.length > 1)) {
+      fail(schema.oneOf ? 'oneOf' : 'anyOf', schema.oneOf && matching.length > 1
+        ? 'must match exactly one of the allowed schemas'
+        : 'must match one of the allowed schemas');
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!types.some(type => type === actual || (type === 'number' && actual === 'integer'))) {
+      fail('type', `must be ${types.map(type => (/^[aeiou]/.test(type) ? 'an ' : 'a ') + type).join(' or ')}, got ${actual}`);
+      return value;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    fail('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    fail('enum', `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail('maximum', `must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}, got ${value}`);
+    }
+    if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      fail('multipleOf', `must be a multiple of ${schema.multipleOf}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail('minLength', `must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail('maxLength', `must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail('pattern', `must match ${schema.pattern}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail('minItems', `must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail('maxItems', `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      return value.map((item, index) => validate(items, item, joinPath(path, index), issues));
+    }
+    return value;
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    const object = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...object };
+    const properties = schema.properties || {};
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (object[key] === undefined) {
+        if (propertySchema.default !== undefined) {
+          result[key] = propertySchema.default;
+        }
+        continue;
+      }
+      result[key] = validate(propertySchema, object[key], joinPath(path, key), issues);
+    }
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({ path: joinPath(path, key), keyword: 'required', message: `${joinPath(path, key)} is required` });
+      }
+    }
+
+    for (const key of Object.keys(object)) {
+      if (key in properties || object[key] === undefined) {
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), keyword: 'additionalProperties', message: `${joinPath(path, key)} is not allowed` });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        result[key] = validate(schema.additionalProperties, object[key], joinPath(path, key), issues);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
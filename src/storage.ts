@@ -0,0 +1,255 @@
+import type * as fs from 'fs';
+import type * as path from 'path';
+import type * as stream from 'stream';
+import type * as streamPromises from 'stream/promises';
+import { StorageError, WaveSpeedError } from './errors';
+import type { FetchFunction } from './transport';
+import { isNode } from './utils';
+
+/**
+ * Object handed to a storage adapter
+ */
+export interface StorageObject {
+  /** Key of the object, e.g. 'wavespeed-ai_flux-dev/pred-123/0.png' */
+  key: string;
+  /** Content of the object */
+  body: ReadableStream<Uint8Array>;
+  /** MIME type of the content */
+  contentType: string;
+  /** Size in bytes, if known */
+  size?: number;
+}
+
+/**
+ * Options for StorageAdapter.put
+ */
+export interface StoragePutOptions {
+  /** Signal that cancels storing the object */
+  signal?: AbortSignal;
+}
+
+/**
+ * Permanent storage for prediction outputs
+ */
+export interface StorageAdapter {
+  /**
+   * Store an object, replacing any object with the same key
+   *
+   * @param object Key, content and MIME type of the object
+   * @param options Cancellation options
+   * @returns Persisted location of the object, e.g. a file path or URL
+   */
+  put(object: StorageObject, options?: StoragePutOptions): Promise<string>;
+}
+
+/**
+ * Options for FileSystemStorage
+ */
+export interface FileSystemStorageOptions {
+  /** Directory the objects are written to, created if missing */
+  dir: string;
+}
+
+/**
+ * Storage writing objects as files under a directory, in Node.js
+ *
+ * Keys are paths relative to the directory. Each file is written under a temporary `.part`
+ * name and renamed once complete.
+ */
+export class FileSystemStorage implements StorageAdapter {
+  readonly dir: string;
+
+  constructor(options: FileSystemStorageOptions) {
+    if (!isNode()) {
+      throw new WaveSpeedError('FileSystemStorage is only supported in Node.js');
+    }
+    this.dir = options.dir;
+  }
+
+  async put(object: StorageObject, options: StoragePutOptions = {}): Promise<string> {
+    const fsModule: typeof fs = require('fs');
+    const pathModule: typeof path = require('path');
+    const { Readable }: typeof stream = require('stream');
+    const { pipeline }: typeof streamPromises = require('stream/promises');
+
+    const root = pathModule.resolve(this.dir);
+    const target = pathModule.resolve(root, object.key);
+    if (!target.startsWith(root + pathModule.sep)) {
+      throw new StorageError(`Key ${object.key} is outside of ${root}`, object.key);
+    }
+    await fsModule.promises.mkdir(pathModule.dirname(target), { recursive: true });
+
+    const partial = `${target}.part`;
+    try {
+      await pipeline(Readable.fromWeb(object.body as any), fsModule.createWriteStream(partial), { signal: options.signal });
+      await fsModule.promises.rename(partial, target);
+    } catch (error) {
+      await fsModule.promises.rm(partial, { force: true });
+      throw error;
+    }
+    return target;
+  }
+}
+
+/**
+ * Options for S3Storage
+ */
+export interface S3StorageOptions {
+  bucket: string;
+  /** Region of the bucket (default: 'us-east-1') */
+  region?: string;
+  /**
+   * Endpoint of an S3-compatible service such as MinIO or R2, e.g. 'http://localhost:9000'.
+   * Objects are then addressed path-style. (default: AWS S3, addressed virtual-hosted-style)
+   */
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials */
+  sessionToken?: string;
+  /** Prefix of every key, e.g. 'outputs/' */
+  prefix?: string;
+  /** Base URL of the returned locations, e.g. a CDN in front of the bucket (default: the object URL) */
+  publicUrl?: string;
+  /** Fetch implementation (default: the global fetch) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Encode bytes as lowercase hex
+ * @private
+ */
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Web Crypto API, in browsers and Node.js
+ * @private
+ */
+function subtleCrypto(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new WaveSpeedError('S3Storage requires the Web Crypto API');
+  }
+  return crypto.subtle;
+}
+
+/**
+ * HMAC-SHA256 of a string
+ * @private
+ */
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const subtle = subtleCrypto();
+  const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+/**
+ * Encode a key for an S3 URL path, keeping the slashes
+ * @private
+ */
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+/**
+ * Storage uploading objects to an S3-compatible bucket
+ *
+ * Requests are signed with AWS Signature Version 4. Objects are read into memory before
+ * being uploaded, since S3 needs their size and checksum up front.
+ */
+export class S3Storage implements StorageAdapter {
+  readonly bucket: string;
+  readonly region: string;
+  private readonly options: S3StorageOptions;
+
+  constructor(options: S3StorageOptions) {
+    this.options = options;
+    this.bucket = options.bucket;
+    this.region = options.region || 'us-east-1';
+  }
+
+  /**
+   * URL of an object in the bucket
+   *
+   * @param key Key of the object, without the prefix
+   */
+  objectUrl(key: string): string {
+    const fullKey = encodeKey(`${this.options.prefix || ''}${key}`);
+    if (this.options.endpoint) {
+      return `${this.options.endpoint.replace(/\/+$/, '')}/${this.bucket}/${fullKey}`;
+    }
+    return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${fullKey}`;
+  }
+
+  async put(object: StorageObject, options: StoragePutOptions = {}): Promise<string> {
+    const url = new URL(this.objectUrl(object.key));
+    const body = new Uint8Array(await new Response(object.body).arrayBuffer());
+    const payloadHash = toHex(await subtleCrypto().digest('SHA-256', body));
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const headers: Record<string, string> = {
+      'content-type': object.contentType,
+      'host': url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (this.options.sessionToken) {
+      headers['x-amz-security-token'] = this.options.sessionToken;
+    }
+    headers['authorization'] = await this.sign('PUT', url, headers, payloadHash, amzDate);
+    delete headers['host'];
+
+    const fetchImpl = this.options.fetch || fetch;
+    const response = await fetchImpl(url.toString(), { method: 'PUT', headers, body, signal: options.signal });
+    if (!response.ok) {
+      const text = await response.text();
+      const code = /<Code>([^<]*)<\/Code>/.exec(text);
+      throw new StorageError(
+        `Failed to store ${object.key} in bucket ${this.bucket}: ${response.status}${code ? ` ${code[1]}` : ''}`,
+        object.key,
+        response.status
+      );
+    }
+
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, '')}/${encodeKey(`${this.options.prefix || ''}${object.key}`)}`;
+    }
+    return url.toString();
+  }
+
+  /**
+   * Authorization header of a request, signed with AWS Signature Version 4
+   * @private
+   */
+  private async sign(method: string, url: URL, headers: Record<string, string>, payloadHash: string, amzDate: string): Promise<string> {
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...names.map(name => `${name}:${headers[name].trim()}`),
+      '',
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      toHex(await subtleCrypto().digest('SHA-256', new TextEncoder().encode(canonicalRequest))),
+    ].join('\n');
+
+    let key: ArrayBuffer = await hmac(new TextEncoder().encode(`AWS4${this.options.secretAccessKey}`), date);
+    for (const part of [this.region, 's3', 'aws4_request']) {
+      key = await hmac(key, part);
+    }
+    const signature = toHex(await hmac(key, stringToSign));
+    return `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`;
+  }
+}
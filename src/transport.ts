@@ -0,0 +1,357 @@
+import type * as http from 'http';
+import type * as https from 'https';
+import type * as net from 'net';
+import type * as stream from 'stream';
+import type * as tls from 'tls';
+import { WaveSpeedError } from './errors';
+import { isNode } from './utils';
+
+/**
+ * Fetch implementation used by the client
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * HTTP transport options, only available in Node.js
+ */
+export interface TransportOptions {
+  /**
+   * Proxy URL, e.g. 'http://proxy.internal:3128'. Defaults to the `HTTPS_PROXY` or `HTTP_PROXY`
+   * environment variables matching the request protocol. Set to false to never use a proxy.
+   */
+  proxy?: string | false;
+  /**
+   * Comma-separated hosts that bypass the proxy, e.g. 'localhost,.internal:8080'.
+   * Defaults to the `NO_PROXY` environment variable.
+   */
+  noProxy?: string;
+  /** Reuse connections between requests (default: true) */
+  keepAlive?: boolean;
+  /** Maximum number of sockets per host (default: unlimited) */
+  maxSockets?: number;
+  /** Certificate authorities to trust, in PEM format, replacing the default ones */
+  ca?: string | Buffer | Array<string | Buffer>;
+}
+
+/**
+ * Read an environment variable in either case
+ * @private
+ */
+function getEnv(name: string): string | undefined {
+  if (typeof process === 'undefined' || !process.env) {
+    return undefined;
+  }
+  return process.env[name] || process.env[name.toLowerCase()] || undefined;
+}
+
+/**
+ * Whether a URL bypasses the proxy according to a NO_PROXY list
+ * @private
+ */
+export function shouldBypassProxy(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.split(/[\s,]+/).some(entry => {
+    if (!entry) {
+      return false;
+    }
+    if (entry === '*') {
+      return true;
+    }
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase())!;
+    const host = match[1].replace(/^\*/, '');
+    if (match[2] && match[2] !== port) {
+      return false;
+    }
+    if (host.startsWith('.')) {
+      return hostname.endsWith(host) || hostname === host.slice(1);
+    }
+    return hostname === host || hostname.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * Proxy to use for a URL, if any
+ * @private
+ */
+export function resolveProxy(url: URL, options: TransportOptions = {}): URL | undefined {
+  if (options.proxy === false) {
+    return undefined;
+  }
+  const proxy = options.proxy
+    || (url.protocol === 'https:' ? getEnv('HTTPS_PROXY') : undefined)
+    || getEnv('HTTP_PROXY');
+  if (!proxy || shouldBypassProxy(url, options.noProxy !== undefined ? options.noProxy : getEnv('NO_PROXY'))) {
+    return undefined;
+  }
+  return new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+}
+
+/**
+ * Redirect statuses followed by the transport, as by fetch
+ * @private
+ */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Maximum number of redirects followed for one request, as by fetch
+ * @private
+ */
+const MAX_REDIRECTS = 20;
+
+/**
+ * Headers describing the request body, dropped when a redirect turns the request into a GET
+ * @private
+ */
+const BODY_HEADERS = ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location'];
+
+/**
+ * Error thrown the way fetch reports network failures, so that the client classifies it as such
+ * @private
+ */
+function networkError(cause: Error): TypeError {
+  return Object.assign(new TypeError(`fetch failed: ${cause.message}`), { cause });
+}
+
+/**
+ * Error thrown the way fetch reports aborted requests
+ * @private
+ */
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Proxy-Authorization header for credentials embedded in the proxy URL
+ * @private
+ */
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * Create a fetch implementation on top of the Node.js http and https modules, supporting
+ * proxies, keep-alive connection pooling and custom certificate authorities. Redirects are
+ * followed as by fetch.
+ *
+ * @param options Transport options
+ */
+export function createNodeFetch(options: TransportOptions = {}): FetchFunction {
+  if (!isNode()) {
+    throw new WaveSpeedError('HTTP transport options are only supported in Node.js');
+  }
+
+  // Loaded lazily so that browser bundles never pull in Node.js modules
+  const httpModule: typeof http = require('http');
+  const httpsModule: typeof https = require('https');
+  const tlsModule: typeof tls = require('tls');
+  const { Readable }: typeof stream = require('stream');
+
+  const keepAlive = options.keepAlive !== false;
+  const agentOptions = { keepAlive, maxSockets: options.maxSockets };
+  const tlsOptions = options.ca ? { ca: options.ca } : {};
+  const httpAgent = new httpModule.Agent(agentOptions);
+  const httpsAgent = new httpsModule.Agent({ ...agentOptions, ...tlsOptions });
+  const tunnelAgents = new Map<string, https.Agent>();
+
+  // Agent opening HTTPS connections through a CONNECT tunnel of the proxy
+  const getTunnelAgent = (proxy: URL): https.Agent => {
+    let agent = tunnelAgents.get(proxy.href);
+    if (!agent) {
+      agent = new httpsModule.Agent({ ...agentOptions, ...tlsOptions });
+      (agent as any).createConnection = (
+        connectOptions: tls.ConnectionOptions & { host: string; port: number },
+        callback: (error: Error | null, socket?: net.Socket) => void
+      ) => {
+        const request = (proxy.protocol === 'https:' ? httpsModule : httpModule).request({
+          host: proxy.hostname,
+          port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+          method: 'CONNECT',
+          path: `${connectOptions.host}:${connectOptions.port}`,
+          headers: { host: `${connectOptions.host}:${connectOptions.port}`, ...proxyAuthorization(proxy) },
+          ...tlsOptions,
+        });
+        request.once('connect', (response, socket) => {
+          if (response.statusCode !== 200) {
+            socket.destroy();
+            callback(new Error(`Proxy responded to CONNECT with status ${response.statusCode}`));
+            return;
+          }
+          const secureSocket = tlsModule.connect({
+            ...connectOptions,
+            ...tlsOptions,
+            socket,
+            servername: connectOptions.servername || connectOptions.host,
+          });
+          callback(null, secureSocket);
+        });
+        request.once('error', error => callback(error));
+        request.end();
+      };
+      tunnelAgents.set(proxy.href, agent);
+    }
+    return agent;
+  };
+
+  // Send a single request, without following redirects
+  const send = async (
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    source: BodyInit | null | undefined,
+    signal: AbortSignal | null | undefined
+  ): Promise<Response> => {
+    const requestHeaders = { ...headers };
+
+    // Serialize the body the way fetch would. Streams, blobs and form data are streamed
+    // rather than read into memory, other bodies are small enough to buffer.
+    let body: Buffer | stream.Readable | undefined;
+    if (source != null) {
+      if (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) {
+        body = Readable.fromWeb(source as any);
+      } else {
+        const serialized = new Response(source);
+        const contentType = serialized.headers.get('content-type');
+        if (contentType && !requestHeaders['content-type']) {
+          requestHeaders['content-type'] = contentType;
+        }
+        if (source instanceof Blob || source instanceof FormData) {
+          if (source instanceof Blob) {
+            requestHeaders['content-length'] = String(source.size);
+          }
+          body = Readable.fromWeb(serialized.body as any);
+        } else {
+          body = Buffer.from(await serialized.arrayBuffer());
+          requestHeaders['content-length'] = String(body.length);
+        }
+      }
+    }
+
+    const proxy = resolveProxy(url, options);
+    const secure = url.protocol === 'https:';
+    let requestOptions: https.RequestOptions;
+    if (proxy && secure) {
+      requestOptions = { host: url.hostname, port: url.port || 443, path: url.pathname + url.search, agent: getTunnelAgent(proxy) };
+    } else if (proxy) {
+      // Plain HTTP requests are sent to the proxy with the absolute URL as path
+      requestOptions = {
+        host: proxy.hostname,
+        port: proxy.port || 80,
+        path: url.href,
+        agent: httpAgent,
+      };
+      Object.assign(requestHeaders, { host: url.host }, proxyAuthorization(proxy));
+    } else {
+      requestOptions = {
+        host: url.hostname,
+        port: url.port || (secure ? 443 : 80),
+        path: url.pathname + url.search,
+        agent: secure ? httpsAgent : httpAgent,
+      };
+    }
+
+    const requestModule = secure ? httpsModule : httpModule;
+
+    return new Promise<Response>((resolve, reject) => {
+      const request = requestModule.request({
+        ...requestOptions,
+        method,
+        headers: requestHeaders,
+      });
+
+      const onAbort = () => request.destroy(abortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      request.once('response', response => {
+        const responseHeaders = new Headers();
+        for (const [key, value] of Object.entries(response.headers)) {
+          if (value !== undefined) {
+            responseHeaders.set(key, Array.isArray(value) ? value.join(', ') : value);
+          }
+        }
+        response.once('end', () => signal?.removeEventListener('abort', onAbort));
+        const status = response.statusCode || 0;
+        const hasBody = status !== 204 && status !== 304 && request.method !== 'HEAD';
+        if (!hasBody) {
+          response.resume();
+        }
+        resolve(new Response(hasBody ? Readable.toWeb(response) as any : null, {
+          status,
+          statusText: response.statusMessage,
+          headers: responseHeaders,
+        }));
+      });
+
+      request.once('error', error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error.name === 'AbortError' ? error : networkError(error));
+      });
+
+      if (body instanceof Readable) {
+        body.once('error', error => request.destroy(error));
+        body.pipe(request);
+      } else {
+        request.end(body);
+      }
+    });
+  };
+
+  return async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const signal = init.signal;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    // Follow redirects the way fetch does
+    let url = new URL(input);
+    let method = (init.method || 'GET').toUpperCase();
+    let source = init.body;
+    for (let redirects = 0; ; redirects++) {
+      const response = await send(url, method, headers, source, signal);
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location || init.redirect === 'manual') {
+        return response;
+      }
+      // Read the redirect body to the end so that its connection can be reused
+      await response.arrayBuffer();
+      if (init.redirect === 'error') {
+        throw networkError(new Error(`Unexpected redirect to ${location}`));
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw networkError(new Error(`Too many redirects, last to ${location}`));
+      }
+
+      const next = new URL(location, url);
+      if ((response.status === 303 && method !== 'GET' && method !== 'HEAD')
+        || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+        method = 'GET';
+        source = undefined;
+        for (const name of BODY_HEADERS) {
+          delete headers[name];
+        }
+      } else if (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) {
+        throw networkError(new Error('Cannot follow a redirect with a streamed body'));
+      }
+      // Credentials are only sent to the origin they were given for
+      if (next.origin !== url.origin) {
+        delete headers.authorization;
+      }
+      url = next;
+    }
+  };
+}
@@ -0,0 +1,497 @@
+import type * as fs from 'fs';
+import type * as path from 'path';
+import type { RequestOptions, UploadResult, WaveSpeed } from './index';
+import { UploadError, WaveSpeedError, WaveSpeedNetworkError, WaveSpeedTimeoutError, createAPIError, getRequestId, readJSONResponse } from './errors';
+import { toHeaderRecord } from './middleware';
+import { DEFAULT_MIME_TYPE, detectMimeType, extensionFromMimeType, mimeTypeFromFilename } from './mime';
+import { resolveRetryPolicy } from './retry';
+import { generateIdempotencyKey, isNode, parseDataUri, sleep } from './utils';
+
+/**
+ * Node.js readable stream, e.g. from `fs.createReadStream`
+ */
+export interface NodeReadableStream extends AsyncIterable<Uint8Array | string> {
+  pipe: (...args: any[]) => unknown;
+  /** Path of the file, set on file streams */
+  path?: string | Uint8Array;
+}
+
+/**
+ * Anything that can be uploaded: a file path or `file:` URL (Node.js only), a data URI,
+ * a Blob or File, binary data, or a web or Node.js stream
+ */
+export type UploadSource =
+  | string
+  | URL
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | NodeReadableStream;
+
+/**
+ * File metadata overrides for an upload
+ */
+export interface UploadFileOptions {
+  /** File name sent to the API (default: inferred from the source) */
+  filename?: string;
+  /** MIME type sent to the API (default: inferred from the file name or content) */
+  contentType?: string;
+}
+
+/**
+ * Progress of an upload
+ */
+export interface UploadProgress {
+  /** Bytes of the file sent so far */
+  loaded: number;
+  /** Size of the file in bytes, unknown for streams */
+  total?: number;
+}
+
+/**
+ * Upload settings of a client
+ */
+export interface UploadConfig {
+  /** Time budget in seconds of an upload, including retries and every chunk (default: 600) */
+  timeout?: number;
+  /** Files of at least this many bytes are uploaded in chunks (default: 50 MiB) */
+  chunkThreshold?: number;
+  /** Size in bytes of the chunks (default: 8 MiB) */
+  chunkSize?: number;
+  /** Times a chunked upload resumes after failing (default: 5) */
+  maxResumes?: number;
+  /** API path of the chunked upload endpoints (default: 'media/upload/chunked') */
+  chunkedPath?: string;
+}
+
+/**
+ * Default upload settings
+ */
+export const DEFAULT_UPLOAD_CONFIG: Required<UploadConfig> = {
+  timeout: 600,
+  chunkThreshold: 50 * 1024 * 1024,
+  chunkSize: 8 * 1024 * 1024,
+  maxResumes: 5,
+  chunkedPath: 'media/upload/chunked',
+};
+
+/**
+ * Upload body and file metadata
+ * @private
+ */
+export interface PreparedUpload {
+  /** Request body, or a function creating a new body stream for every attempt */
+  body: FormData | ReadableStream<Uint8Array> | (() => ReadableStream<Uint8Array>);
+  /** Headers to send with the body */
+  headers: Record<string, string>;
+  filename: string;
+  type: string;
+  /** Size in bytes, unknown for streams */
+  size?: number;
+  /** The body is a stream, which can only be sent once */
+  streaming: boolean;
+  /** The file, unless it is read from a stream */
+  blob?: Blob;
+}
+
+/**
+ * Default file name for data of a MIME type
+ * @private
+ */
+function defaultFilename(type: string): string {
+  const extension = extensionFromMimeType(type);
+  return extension ? `file.${extension}` : 'file';
+}
+
+/**
+ * Read a file path or `file:` URL as a Blob backed by the file, or as a stream on older Node.js versions
+ * @private
+ */
+async function openFile(filePath: string | URL): Promise<{ file: Blob | NodeReadableStream; filename: string }> {
+  if (!isNode()) {
+    throw new WaveSpeedError('Uploading file paths is only supported in Node.js; pass a Blob or File instead');
+  }
+  const fsModule: typeof fs = require('fs');
+  const pathModule: typeof path = require('path');
+  const openAsBlob: ((path: string | URL) => Promise<Blob>) | undefined = (fsModule as any).openAsBlob;
+  if (!fsModule.existsSync(filePath)) {
+    throw new WaveSpeedError(`File not found: ${filePath}`);
+  }
+  const filename = pathModule.basename(typeof filePath === 'string' ? filePath : decodeURIComponent(filePath.pathname));
+  return { file: openAsBlob ? await openAsBlob(filePath) : fsModule.createReadStream(filePath), filename };
+}
+
+/**
+ * Quote a file name for a Content-Disposition header
+ * @private
+ */
+function quoteFilename(filename: string): string {
+  return filename.replace(/"/g, '%22').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Iterate the chunks of a web stream
+ * @private
+ */
+function readerIterator(stream: ReadableStream<Uint8Array>): AsyncIterator<Uint8Array> {
+  const reader = stream.getReader();
+  return {
+    next: () => reader.read() as Promise<IteratorResult<Uint8Array>>,
+    return: async () => {
+      await reader.cancel();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Put a chunk back in front of an iterator
+ * @private
+ */
+function prependChunk<T>(first: T | undefined, chunks: AsyncIterator<T>): AsyncIterator<T> {
+  let pending = first;
+  return {
+    next: async () => {
+      if (pending === undefined) {
+        return chunks.next();
+      }
+      const value = pending;
+      pending = undefined;
+      return { done: false, value };
+    },
+    return: async () => {
+      await chunks.return?.();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Report the number of bytes of every chunk read from an iterator
+ * @private
+ */
+function countBytes(chunks: AsyncIterator<Uint8Array | string>, onBytes: (bytes: number) => void): AsyncIterator<Uint8Array> {
+  return {
+    next: async () => {
+      const result = await chunks.next();
+      if (result.done) {
+        return { done: true, value: undefined };
+      }
+      const value = typeof result.value === 'string' ? new TextEncoder().encode(result.value) : result.value;
+      onBytes(value.byteLength);
+      return { done: false, value };
+    },
+    return: async () => {
+      await chunks.return?.();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * Stream a multipart/form-data body holding a single file, without buffering it
+ * @private
+ */
+function multipartStream(
+  chunks: AsyncIterator<Uint8Array | string>,
+  filename: string,
+  type: string,
+  boundary: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${quoteFilename(filename)}"\r\n` +
+    `Content-Type: ${type}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  async function* parts(): AsyncGenerator<Uint8Array> {
+    yield head;
+    while (true) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        break;
+      }
+      yield typeof value === 'string' ? encoder.encode(value) : value;
+    }
+    yield tail;
+  }
+
+  const generator = parts();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await generator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      await chunks.return?.(reason);
+    },
+  });
+}
+
+/**
+ * Turn any upload source into a request body, inferring the file name and MIME type
+ *
+ * Blobs, files and file paths are sent as FormData that fetch streams from the source. Streams
+ * are wrapped into a streamed multipart body. Only in-memory data is held in memory. To report
+ * progress, blobs are sent as a multipart stream too, created anew for every attempt.
+ *
+ * @param source Data to upload
+ * @param options File name and MIME type overrides
+ * @param onProgress Called with the number of bytes of the file read by fetch
+ * @private
+ */
+export async function prepareUpload(
+  source: UploadSource,
+  options: UploadFileOptions = {},
+  onProgress?: (progress: UploadProgress) => void
+): Promise<PreparedUpload> {
+  let filename = options.filename;
+  let blob: Blob | undefined;
+  let stream: AsyncIterator<Uint8Array | string> | undefined;
+  let streamType: string | undefined;
+
+  if (typeof source === 'string' && source.startsWith('data:')) {
+    const { bytes, type } = parseDataUri(source);
+    blob = new Blob([bytes], { type: options.contentType || type || detectMimeType(bytes) || DEFAULT_MIME_TYPE });
+  } else if (typeof source === 'string' || (typeof URL !== 'undefined' && source instanceof URL)) {
+    if (source instanceof URL && source.protocol !== 'file:') {
+      throw new WaveSpeedError(`Cannot upload ${source.protocol} URLs, only file: URLs`);
+    }
+    const opened = await openFile(source);
+    filename = filename || opened.filename;
+    const type = options.contentType || mimeTypeFromFilename(filename) || DEFAULT_MIME_TYPE;
+    if (opened.file instanceof Blob) {
+      blob = opened.file.slice(0, opened.file.size, type);
+    } else {
+      stream = opened.file[Symbol.asyncIterator]();
+      streamType = type;
+    }
+  } else if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    filename = filename || (source as File).name || undefined;
+    const type = options.contentType || source.type || (filename && mimeTypeFromFilename(filename))
+      || detectMimeType(new Uint8Array(await source.slice(0, 16).arrayBuffer())) || DEFAULT_MIME_TYPE;
+    blob = type === source.type ? source : source.slice(0, source.size, type);
+  } else if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+    const bytes = source instanceof ArrayBuffer
+      ? new Uint8Array(source)
+      : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+    const type = options.contentType || (filename && mimeTypeFromFilename(filename)) || detectMimeType(bytes) || DEFAULT_MIME_TYPE;
+    blob = new Blob([bytes], { type });
+  } else if (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) {
+    stream = readerIterator(source);
+  } else if (source && typeof (source as NodeReadableStream)[Symbol.asyncIterator] === 'function') {
+    const readable = source as NodeReadableStream;
+    if (!filename && readable.path) {
+      filename = String(readable.path).split(/[\\/]/).pop();
+    }
+    stream = readable[Symbol.asyncIterator]();
+  } else {
+    throw new WaveSpeedError('Unsupported upload source: expected a file path, data URI, Blob, File, Buffer, Uint8Array or stream');
+  }
+
+  const boundary = `----WaveSpeedFormBoundary${generateIdempotencyKey().replace(/-/g, '')}`;
+  const headers = { 'content-type': `multipart/form-data; boundary=${boundary}` };
+
+  if (blob) {
+    const file = blob;
+    const name = filename || defaultFilename(file.type);
+    const prepared = { filename: name, type: file.type, size: file.size, streaming: false, blob: file };
+    if (onProgress) {
+      const body = () => {
+        let loaded = 0;
+        const chunks = countBytes(readerIterator(file.stream()), bytes => {
+          loaded += bytes;
+          onProgress({ loaded, total: file.size });
+        });
+        return multipartStream(chunks, name, file.type, boundary);
+      };
+      return { ...prepared, body, headers };
+    }
+    const form = new FormData();
+    form.append('file', file, name);
+    return { ...prepared, body: form, headers: {} };
+  }
+
+  // Peek at the first chunk of a stream to detect its type
+  const firstResult = await stream!.next();
+  const first = firstResult.done
+    ? undefined
+    : typeof firstResult.value === 'string' ? new TextEncoder().encode(firstResult.value) : firstResult.value;
+  const type = options.contentType || streamType || (filename && mimeTypeFromFilename(filename))
+    || (first && detectMimeType(first)) || DEFAULT_MIME_TYPE;
+  filename = filename || defaultFilename(type);
+
+  let chunks = prependChunk<Uint8Array | string>(first, stream!);
+  if (onProgress) {
+    let loaded = 0;
+    chunks = countBytes(chunks, bytes => {
+      loaded += bytes;
+      onProgress({ loaded });
+    });
+  }
+  const body = multipartStream(chunks, filename, type, boundary);
+  return { body, headers, filename, type, streaming: true };
+}
+
+/**
+ * Read the data of an upload endpoint response, throwing an UploadError if the API rejected the upload
+ *
+ * @param response Response of an upload endpoint
+ * @param message Error message prefix
+ * @private
+ */
+export async function readUploadResponse<T>(response: Response, message: string): Promise<T> {
+  if (!response.ok) {
+    throw await createAPIError(response, message, UploadError);
+  }
+  const resp: { code: number; message: string; data: T } = await readJSONResponse(response, message, UploadError);
+  if (resp.code !== 200) {
+    throw new UploadError(`${message}: ${resp.code} ${resp.message}`, {
+      status: response.status,
+      code: resp.code,
+      apiMessage: resp.message,
+      requestId: getRequestId(response),
+      body: JSON.stringify(resp),
+    });
+  }
+  return resp.data;
+}
+
+/**
+ * Options of a chunked upload
+ * @private
+ */
+export interface ChunkedUploadOptions {
+  /** Size in bytes of the chunks */
+  chunkSize: number;
+  /** Times the upload resumes after failing */
+  maxResumes: number;
+  /** API path of the chunked upload endpoints */
+  path: string;
+  /** Time budget in ms of the whole upload */
+  timeout: number;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Fetch options of every request */
+  requestOptions: RequestOptions;
+}
+
+/**
+ * Upload a file in chunks, resuming from the last chunk acknowledged by the API after failures
+ *
+ * `POST {path}` starts the upload, `PUT {path}/{upload_id}` sends a chunk with a `Content-Range`
+ * header and `POST {path}/{upload_id}/complete` finishes it. After a network error or timeout,
+ * `GET {path}/{upload_id}` tells how many bytes the API has received.
+ *
+ * @param client Client sending the requests
+ * @param blob File to upload
+ * @param filename File name sent to the API
+ * @param options Chunk size, endpoints, time budget and fetch options
+ * @returns Metadata of the uploaded file, or undefined if the API has no chunked upload endpoint
+ * @private
+ */
+export async function uploadInChunks(
+  client: WaveSpeed,
+  blob: Blob,
+  filename: string,
+  options: ChunkedUploadOptions
+): Promise<UploadResult | undefined> {
+  const { chunkSize, maxResumes, path, timeout, onProgress, requestOptions } = options;
+  const policy = resolveRetryPolicy(client.retryPolicy, requestOptions.retry, { maxRetries: requestOptions.maxRetries });
+  const deadline = Date.now() + timeout;
+  const budgetExceeded = () => new WaveSpeedTimeoutError(`Upload of ${filename} did not finish within ${timeout}ms`, timeout);
+
+  // Every request gets the time left of the budget
+  const request = async <T>(requestPath: string, init: RequestOptions, message: string): Promise<T> => {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw budgetExceeded();
+    }
+    const response = await client.fetchWithTimeout(requestPath, {
+      ...requestOptions,
+      ...init,
+      headers: { ...toHeaderRecord(requestOptions.headers), ...toHeaderRecord(init.headers) },
+      timeout: requestOptions.timeout !== undefined ? Math.min(requestOptions.timeout, remaining) : remaining,
+      retry: { ...requestOptions.retry, retryBudget: Math.min(policy.retryBudget, remaining) },
+    });
+    return readUploadResponse<T>(response, message);
+  };
+
+  let uploadId: string;
+  try {
+    ({ upload_id: uploadId } = await request<{ upload_id: string }>(path, {
+      method: 'POST',
+      body: JSON.stringify({ filename, type: blob.type, size: blob.size, chunk_size: chunkSize }),
+      idempotencyKey: generateIdempotencyKey(),
+    }, 'Failed to start chunked upload'));
+  } catch (error) {
+    if (error instanceof UploadError && (error.status === 404 || error.status === 405 || error.status === 501)) {
+      return undefined;
+    }
+    throw error;
+  }
+  const uploadPath = `${path}/${encodeURIComponent(uploadId)}`;
+
+  let offset = 0;
+  let resumes = 0;
+  let resuming = false;
+  while (offset < blob.size) {
+    try {
+      if (resuming) {
+        // Continue after the last byte the API received
+        ({ offset } = await request<{ offset: number }>(uploadPath, { method: 'GET' }, 'Failed to get upload status'));
+        resuming = false;
+        onProgress?.({ loaded: offset, total: blob.size });
+        continue;
+      }
+
+      const end = Math.min(offset + chunkSize, blob.size);
+      const acknowledged = await request<{ offset: number }>(uploadPath, {
+        method: 'PUT',
+        body: blob.slice(offset, end),
+        headers: {
+          'content-type': 'application/octet-stream',
+          'content-range': `bytes ${offset}-${end - 1}/${blob.size}`,
+        },
+        isUpload: true,
+      }, 'Failed to upload chunk');
+      if (!(acknowledged.offset > offset)) {
+        throw new WaveSpeedError(`Chunked upload ${uploadId} did not advance past byte ${offset}`);
+      }
+      offset = acknowledged.offset;
+      onProgress?.({ loaded: offset, total: blob.size });
+
+    } catch (error) {
+      if (!(error instanceof WaveSpeedNetworkError || error instanceof WaveSpeedTimeoutError)) {
+        throw error;
+      }
+      if (Date.now() >= deadline) {
+        throw budgetExceeded();
+      }
+      if (resumes >= maxResumes) {
+        throw error;
+      }
+      resumes++;
+      resuming = true;
+      const delay = client._getBackoffTime(resumes, policy.baseDelay, policy.jitter, policy.maxDelay);
+      client.logger.warn(`Chunk upload failed with error: ${error.message}. Resuming (${resumes}/${maxResumes}) in ${Math.round(delay)}ms...`, {
+        uploadId,
+        offset,
+        attempt: resumes,
+        delay: Math.round(delay),
+        error: error.message,
+      });
+      await sleep(Math.min(delay, Math.max(deadline - Date.now(), 0)), requestOptions.signal);
+    }
+  }
+
+  return request<UploadResult>(`${uploadPath}/complete`, {
+    method: 'POST',
+    idempotencyKey: generateIdempotencyKey(),
+  }, 'Failed to complete chunked upload');
+}
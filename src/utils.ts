@@ -0,0 +1,167 @@
+import { WaveSpeedAbortError, WaveSpeedError } from './errors';
+
+/**
+ * Throw a WaveSpeedAbortError if the signal has been aborted
+ * @private
+ */
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal && signal.aborted) {
+    throw new WaveSpeedAbortError(signal.reason);
+  }
+}
+
+/**
+ * Wait for the given time, rejecting early with a WaveSpeedAbortError if the signal is aborted
+ *
+ * @param ms Time to wait in milliseconds
+ * @param signal Optional signal that cancels the wait
+ * @private
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new WaveSpeedAbortError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new WaveSpeedAbortError(signal!.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Read the server's back-off hint from a response
+ *
+ * Supports `Retry-After` (seconds or HTTP date), and `X-RateLimit-Reset` (seconds or epoch seconds)
+ * once `X-RateLimit-Remaining` reaches zero.
+ *
+ * @returns Time to wait in milliseconds, or undefined if the response carries no hint
+ * @private
+ */
+export function getRetryAfter(response: Response): number | undefined {
+  const headers = response.headers;
+  if (!headers || typeof headers.get !== 'function') {
+    return undefined;
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (remaining !== null && Number(remaining) <= 0 && reset > 0) {
+    // Large values are absolute epoch seconds, small ones a delay in seconds
+    return Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+  }
+
+  return undefined;
+}
+
+/**
+ * Generate a random idempotency key (UUID v4)
+ * @private
+ */
+export function generateIdempotencyKey(): string {
+  const cryptoApi: Crypto | undefined = typeof crypto !== 'undefined' ? crypto : undefined;
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  // Fallback for runtimes without crypto.randomUUID
+  const bytes = new Uint8Array(16);
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Decode base64 data, in browsers and Node.js
+ * @private
+ */
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Parse a data URI into its bytes and MIME type
+ * @private
+ */
+export function parseDataUri(uri: string): { bytes: Uint8Array; type?: string } {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(uri);
+  if (!match) {
+    throw new WaveSpeedError('Invalid data URI');
+  }
+  const base64 = match[2].split(';').includes('base64');
+  const bytes = base64 ? decodeBase64(match[3]) : new TextEncoder().encode(decodeURIComponent(match[3]));
+  return { bytes, type: match[1] || undefined };
+}
+
+/**
+ * Whether the code runs in Node.js
+ * @private
+ */
+export function isNode(): boolean {
+  return typeof process !== 'undefined' && !!process.versions && !!process.versions.node;
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight, stopping at the first failure
+ *
+ * @param items Items to map
+ * @param concurrency Maximum number of calls in flight
+ * @param fn Async function mapping an item
+ * @returns The results, in the order of the items
+ * @private
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,143 @@
+import { WaveSpeed, InputValidationError, JSONSchema, WaveSpeedAPIError } from '../src';
+
+const fluxSchema: JSONSchema = {
+  type: 'object',
+  required: ['prompt'],
+  properties: {
+    prompt: { type: 'string' },
+    size: { type: 'string', enum: ['512*512', '1024*1024'], default: '1024*1024' },
+    guidance_scale: { type: 'number', minimum: 1, maximum: 10, default: 3.5 },
+  }
+};
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify({ code: status, message: status === 200 ? 'success' : 'error', data }), { status });
+}
+
+describe('Model catalog', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should list models and cache their metadata', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse([
+      { model_id: 'wavespeed-ai/flux-dev', name: 'FLUX.1 [dev]', input_schema: fluxSchema },
+      { model_id: 'wavespeed-ai/flux-schnell', name: 'FLUX.1 [schnell]' },
+    ]));
+
+    const client = new WaveSpeed('test-api-key');
+    const models = await client.models.list();
+
+    expect(models.map(model => model.model_id)).toEqual(['wavespeed-ai/flux-dev', 'wavespeed-ai/flux-schnell']);
+    expect(global.fetch).toHaveBeenCalledWith('https://api.wavespeed.ai/api/v3/models', expect.objectContaining({ method: 'GET' }));
+
+    const model = await client.models.get('wavespeed-ai/flux-dev');
+    expect(model.input_schema).toEqual(fluxSchema);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should get a model once for concurrent lookups', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ model_id: 'wavespeed-ai/flux-dev', input_schema: fluxSchema }));
+
+    const client = new WaveSpeed('test-api-key');
+    const [first, second] = await Promise.all([
+      client.models.get('wavespeed-ai/flux-dev'),
+      client.models.getSchema('wavespeed-ai/flux-dev'),
+    ]);
+
+    expect(first.model_id).toBe('wavespeed-ai/flux-dev');
+    expect(second).toEqual(fluxSchema);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledWith('https://api.wavespeed.ai/api/v3/models/wavespeed-ai/flux-dev', expect.anything());
+  });
+
+  test('should not cache failed lookups', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response('Not found', { status: 404 }))
+      .mockResolvedValueOnce(jsonResponse({ model_id: 'wavespeed-ai/flux-dev' }));
+
+    const client = new WaveSpeed('test-api-key');
+    await expect(client.models.get('wavespeed-ai/flux-dev')).rejects.toBeInstanceOf(WaveSpeedAPIError);
+    await expect(client.models.get('wavespeed-ai/flux-dev')).resolves.toEqual({ model_id: 'wavespeed-ai/flux-dev' });
+  });
+});
+
+describe('Input validation', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn().mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.includes('/models/')) {
+        return jsonResponse({ model_id: 'wavespeed-ai/flux-dev', input_schema: fluxSchema });
+      }
+      return jsonResponse({
+        id: 'pred-123',
+        model: 'wavespeed-ai/flux-dev',
+        status: 'created',
+        input: JSON.parse(init.body as string),
+        urls: { get: '' }
+      });
+    });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should reject invalid inputs before creating the prediction', async () => {
+    const client = new WaveSpeed('test-api-key', { validateInput: true, logLevel: 'silent' });
+
+    const error = await client.create('test-model', { size: '1000*1000', guidance_scale: 20 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(InputValidationError);
+    expect(error.modelId).toBe('test-model');
+    expect(error.issues.map((issue: { path: string }) => issue.path)).toEqual(['size', 'guidance_scale', 'prompt']);
+    expect(error.message).toContain('guidance_scale must be <= 10, got 20');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledWith('https://api.wavespeed.ai/api/v3/models/test-model', expect.anything());
+  });
+
+  test('should send the input with the schema defaults', async () => {
+    const client = new WaveSpeed('test-api-key', { validateInput: true });
+
+    const prediction = await client.create('wavespeed-ai/flux-dev', { prompt: 'a cat' });
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'a dog', size: '512*512' });
+
+    expect(prediction.input).toEqual({ prompt: 'a cat', size: '1024*1024', guidance_scale: 3.5 });
+    // The schema is fetched once and then served from the cache
+    expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+      'https://api.wavespeed.ai/api/v3/models/wavespeed-ai/flux-dev',
+      'https://api.wavespeed.ai/api/v3/wavespeed-ai/flux-dev',
+      'https://api.wavespeed.ai/api/v3/wavespeed-ai/flux-dev',
+    ]);
+  });
+
+  test('should validate offline with injected schemas', async () => {
+    const client = new WaveSpeed('test-api-key', {
+      validateInput: true,
+      logLevel: 'silent',
+      models: { schemas: { 'wavespeed-ai/flux-dev': fluxSchema } }
+    });
+
+    await expect(client.create('wavespeed-ai/flux-dev', { prompt: 'a cat', size: '1000*1000' }))
+      .rejects.toBeInstanceOf(InputValidationError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('should only validate when enabled', async () => {
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent', models: { schemas: { 'wavespeed-ai/flux-dev': fluxSchema } } });
+
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'a cat', size: '1000*1000' });
+    await expect(client.create('wavespeed-ai/flux-dev', { prompt: 'a cat', size: '1000*1000' }, { validateInput: true }))
+      .rejects.toBeInstanceOf(InputValidationError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { generateDeclarations, CodegenModel, JSONSchema } from '../src';
+import { main } from '../src/cli';
+
+const upscalerSchema: JSONSchema = {
+  type: 'object',
+  required: ['image'],
+  properties: {
+    image: { type: 'string', description: 'URL of the image to upscale' },
+    scale: { type: 'integer', enum: [2, 4], default: 2 },
+  }
+};
+
+const videoModel: CodegenModel = {
+  model_id: 'acme/video-gen',
+  description: 'Text to video',
+  input_schema: {
+    type: 'object',
+    required: ['prompt'],
+    properties: {
+      prompt: { type: 'string' },
+      duration: { type: 'number', minimum: 1, maximum: 10, description: 'Duration in seconds' },
+      'aspect-ratio': { type: 'string', enum: ['16:9', '9:16'] },
+      loras: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' }, scale: { type: ['number', 'null'] } } } },
+    }
+  },
+  output_schema: { type: 'array', items: { type: 'string' }, maxItems: 1 },
+};
+
+/**
+ * Type-check files against the SDK sources, mapped to the 'wavespeed' module
+ */
+function typeCheck(files: string[]): string[] {
+  const program = ts.createProgram(files, {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2018,
+    lib: ['lib.es2018.d.ts', 'lib.dom.d.ts'],
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    baseUrl: path.resolve(__dirname, '..'),
+    paths: { wavespeed: ['src/index.ts'] },
+    types: ['node'],
+  });
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+describe('Code generation', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-codegen-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should generate interfaces with JSDoc and ModelMap entries', () => {
+    const declarations = generateDeclarations([
+      videoModel,
+      { model_id: 'my-team/upscaler', input_schema: upscalerSchema },
+      { model_id: 'wavespeed-ai/flux-dev', input_schema: { type: 'object', properties: { prompt: { type: 'string' } } } },
+    ]);
+
+    expect(declarations).toContain([
+      '/**',
+      ' * Input of acme/video-gen',
+      ' *',
+      ' * Text to video',
+      ' */',
+      'export interface AcmeVideoGenInput {',
+      '  prompt: string;',
+      '  /**',
+      '   * Duration in seconds',
+      '   *',
+      '   * @minimum 1',
+      '   * @maximum 10',
+      '   */',
+      '  duration?: number;',
+      "  'aspect-ratio'?: '16:9' | '9:16';",
+      '  loras?: Array<{',
+      '    path?: string;',
+      '    scale?: number | null;',
+      '  }>;',
+      '}',
+    ].join('\n'));
+    expect(declarations).toContain('export type AcmeVideoGenOutput = string[];');
+    expect(declarations).toContain('  /** @default 2 */\n  scale?: 2 | 4;');
+    expect(declarations).toContain("    'my-team/upscaler': { input: MyTeamUpscalerInput; output: MyTeamUpscalerOutput };");
+    // Built-in models keep their SDK types
+    expect(declarations).toContain('    // wavespeed-ai/flux-dev is already typed by the SDK');
+  });
+
+  test('should escape comment terminators in descriptions and validation keywords', () => {
+    const declarations = generateDeclarations([{
+      model_id: 'acme/crawler',
+      input_schema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', pattern: '^https://.*/$', description: 'Page to crawl, e.g. https://example.com/*/' },
+        },
+      },
+    }]);
+
+    expect(declarations).toContain('   * @pattern ^https://.*\\/$');
+    const { diagnostics } = ts.transpileModule(declarations, { reportDiagnostics: true, compilerOptions: { target: ts.ScriptTarget.ES2018 } });
+    expect(diagnostics!.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))).toEqual([]);
+  });
+
+  test('should produce declarations that type WaveSpeed.run and create', () => {
+    const declarationsFile = path.join(tmpDir, 'models.d.ts');
+    const usageFile = path.join(tmpDir, 'usage.ts');
+    fs.writeFileSync(declarationsFile, generateDeclarations([videoModel, { model_id: 'my-team/upscaler', input_schema: upscalerSchema }]));
+    fs.writeFileSync(usageFile, [
+      "import { WaveSpeed } from 'wavespeed';",
+      "const client = new WaveSpeed('key');",
+      'export async function usage() {',
+      "  const video = await client.run('acme/video-gen', { prompt: 'a cat', duration: 5, 'aspect-ratio': '16:9' });",
+      '  const url: string = video.outputs[0];',
+      "  await client.create('my-team/upscaler', { image: url, scale: 4 });",
+      '  // @ts-expect-error unknown field',
+      "  await client.create('acme/video-gen', { prompt: 'a cat', durations: 5 });",
+      '  // @ts-expect-error scale must be 2 or 4',
+      "  await client.create('my-team/upscaler', { image: url, scale: 3 });",
+      '}',
+    ].join('\n'));
+
+    expect(typeCheck([declarationsFile, usageFile])).toEqual([]);
+  }, 60000);
+
+  test('wavespeed codegen should read schemas from a directory and write a declaration file', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'schemas', 'my-team'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'schemas', 'my-team', 'upscaler.json'), JSON.stringify(upscalerSchema));
+    fs.writeFileSync(path.join(tmpDir, 'schemas', 'catalog.json'), JSON.stringify({ code: 200, data: [videoModel] }));
+    const out = path.join(tmpDir, 'types', 'wavespeed-models.d.ts');
+    const stderr = jest.fn();
+
+    const code = await main(['codegen', path.join(tmpDir, 'schemas'), '--out', out], { stdout: jest.fn(), stderr });
+
+    expect(code).toBe(0);
+    expect(stderr).toHaveBeenCalledWith(`Wrote types for 2 model(s) to ${out}\n`);
+    const declarations = fs.readFileSync(out, 'utf8');
+    expect(declarations).toContain("'acme/video-gen': { input: AcmeVideoGenInput; output: AcmeVideoGenOutput };");
+    expect(declarations).toContain("'my-team/upscaler': { input: MyTeamUpscalerInput; output: MyTeamUpscalerOutput };");
+  });
+
+  test('wavespeed codegen should report invalid usage and files', async () => {
+    const io = { stdout: jest.fn(), stderr: jest.fn() };
+    fs.writeFileSync(path.join(tmpDir, 'bad.json'), JSON.stringify({ name: 'no schema here' }));
+
+    expect(await main(['generate'], io)).toBe(1);
+    expect(io.stderr).toHaveBeenLastCalledWith(expect.stringContaining('Usage: wavespeed codegen'));
+    expect(await main(['codegen', path.join(tmpDir, 'bad.json')], io)).toBe(1);
+    expect(io.stderr).toHaveBeenLastCalledWith(expect.stringContaining('expected a model with a model_id, or a JSON Schema'));
+    expect(io.stdout).not.toHaveBeenCalled();
+  });
+});
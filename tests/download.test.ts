@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Prediction, WaveSpeed, WaveSpeedAPIError } from '../src';
+
+const OUTPUTS: Record<string, { body: string; type: string }> = {
+  'https://cdn.example.com/outputs/first.jpeg': { body: 'jpeg', type: 'image/jpeg' },
+  'https://cdn.example.com/outputs/second': { body: 'png', type: 'image/png' },
+  'https://cdn.example.com/outputs/clip.mp4': { body: 'mp4', type: 'application/octet-stream' },
+};
+
+function completedPrediction(client: WaveSpeed, outputs: string[], nsfw: boolean[] = []): Prediction {
+  return new Prediction({
+    id: 'pred-123',
+    model: 'wavespeed-ai/flux-dev',
+    status: 'completed',
+    outputs,
+    has_nsfw_contents: nsfw,
+    urls: { get: '' },
+  }, client);
+}
+
+describe('Output downloads', () => {
+  const originalFetch = global.fetch;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-download-'));
+    global.fetch = jest.fn().mockImplementation(async (url: string) => {
+      const output = OUTPUTS[url];
+      return output
+        ? new Response(output.body, { status: 200, headers: { 'content-type': output.type } })
+        : new Response('not found', { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should write the outputs with extensions from their Content-Type', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = completedPrediction(client, Object.keys(OUTPUTS));
+
+    const paths = await prediction.download({ dir: path.join(tmpDir, 'out') });
+
+    expect(paths).toEqual([
+      path.join(tmpDir, 'out', 'pred-123_0.jpg'),
+      path.join(tmpDir, 'out', 'pred-123_1.png'),
+      // Generic types fall back to the extension in the URL
+      path.join(tmpDir, 'out', 'pred-123_2.mp4'),
+    ]);
+    expect(paths.map(file => fs.readFileSync(file, 'utf8'))).toEqual(['jpeg', 'png', 'mp4']);
+    expect(fs.readdirSync(path.join(tmpDir, 'out')).some(file => file.endsWith('.part'))).toBe(false);
+  });
+
+  test('should not send the API key to the storage host', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    await completedPrediction(client, ['https://cdn.example.com/outputs/second']).download({ dir: tmpDir });
+
+    const headers = (global.fetch as jest.Mock).mock.calls[0][1].headers;
+    expect(headers).not.toHaveProperty('Authorization');
+  });
+
+  test('should name files from a template', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = completedPrediction(client, ['https://cdn.example.com/outputs/first.jpeg']);
+
+    const [file] = await prediction.download({ dir: tmpDir, filenameTemplate: '{model}-{name}.{ext}' });
+
+    expect(path.basename(file)).toBe('wavespeed-ai_flux-dev-first.jpg');
+  });
+
+  test('should skip outputs flagged as NSFW when asked to', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = completedPrediction(client, Object.keys(OUTPUTS), [false, true, false]);
+
+    const paths = await prediction.download({ dir: tmpDir, skipNsfw: true });
+
+    expect(paths.map(file => path.basename(file))).toEqual(['pred-123_0.jpg', 'pred-123_2.mp4']);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should retry failed downloads with the client retry policy', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response('unavailable', { status: 503 }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent', retry: { baseDelay: 1 } });
+
+    const paths = await completedPrediction(client, ['https://cdn.example.com/outputs/second']).download({ dir: tmpDir });
+
+    expect(fs.readFileSync(paths[0], 'utf8')).toBe('png');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep CDN failures out of the API circuit breaker and middleware', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response('unavailable', { status: 503 }));
+    const middleware = jest.fn((request, next) => next(request));
+    const client = new WaveSpeed('test-api-key', {
+      logLevel: 'silent',
+      retry: { maxRetries: 0 },
+      circuitBreaker: { failureThreshold: 1 },
+      rateLimit: { maxConcurrency: 1 },
+    }).use(middleware);
+
+    await expect(completedPrediction(client, ['https://cdn.example.com/outputs/second']).outputBlobs()).rejects.toThrow(WaveSpeedAPIError);
+
+    expect(client.circuitBreaker!.state).toBe('closed');
+    expect(client.rateLimiter!.stats.throttled).toBe(0);
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  test('should reject when an output cannot be downloaded, without leaving partial files', async () => {
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+    const prediction = completedPrediction(client, ['https://cdn.example.com/outputs/missing.png']);
+
+    await expect(prediction.download({ dir: tmpDir })).rejects.toThrow(WaveSpeedAPIError);
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+  });
+
+  test('should return the outputs as Blobs', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = completedPrediction(client, [
+      'https://cdn.example.com/outputs/first.jpeg',
+      `data:image/png;base64,${Buffer.from('inline').toString('base64')}`,
+    ]);
+
+    const blobs = await prediction.outputBlobs();
+
+    expect(blobs.map(blob => blob.type)).toEqual(['image/jpeg', 'image/png']);
+    expect(await Promise.all(blobs.map(blob => blob.text()))).toEqual(['jpeg', 'inline']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
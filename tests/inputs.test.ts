@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+import { WaveSpeed, UploadError } from '../src';
+
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify({ code: status, message: status === 200 ? 'success' : 'error', data }), { status });
+}
+
+describe('Automatic upload of file inputs', () => {
+  const originalFetch = global.fetch;
+  let uploadCount: number;
+  let createdInput: any;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    uploadCount = 0;
+    createdInput = undefined;
+    global.fetch = jest.fn().mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('media/upload/binary')) {
+        uploadCount++;
+        // Name the uploaded file after its contents
+        const request = new Request('http://localhost/upload', { method: 'POST', body: init.body, headers: init.headers, duplex: 'half' } as RequestInit);
+        const file = (await request.formData()).get('file') as File;
+        const content = await file.text();
+        return jsonResponse({ type: file.type, download_url: `https://cdn.example.com/${content}`, filename: file.name, size: file.size });
+      }
+      createdInput = JSON.parse(init.body as string);
+      return jsonResponse({ id: 'pred-123', model: 'test-model', status: 'created', input: createdInput, urls: { get: '' } });
+    });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should upload files anywhere in the input and send their URLs', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    await client.create('test-model', {
+      prompt: 'a cat',
+      image: new Blob(['png']),
+      mask: Buffer.from('mask'),
+      references: [{ video: Readable.from([Buffer.from('video')]) }],
+      seed: 42,
+    });
+
+    expect(createdInput).toEqual({
+      prompt: 'a cat',
+      image: 'https://cdn.example.com/png',
+      mask: 'https://cdn.example.com/mask',
+      references: [{ video: 'https://cdn.example.com/video' }],
+      seed: 42,
+    });
+    expect(uploadCount).toBe(3);
+  });
+
+  test('should upload the same and identical files once', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const image = new Blob(['png']);
+
+    await client.create('test-model', {
+      image,
+      images: [image, new Blob(['png']), Buffer.from('png'), Buffer.from('other')],
+    });
+
+    expect(uploadCount).toBe(2);
+    expect(createdInput).toEqual({
+      image: 'https://cdn.example.com/png',
+      images: ['https://cdn.example.com/png', 'https://cdn.example.com/png', 'https://cdn.example.com/png', 'https://cdn.example.com/other'],
+    });
+  });
+
+  test('should only read and hash files that share their size with another file', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const digest = jest.spyOn(crypto.subtle, 'digest');
+
+    await client.create('test-model', { image: new Blob(['png']) });
+    await client.create('test-model', { image: new Blob(['png']), mask: Buffer.from('mask') });
+    expect(digest).not.toHaveBeenCalled();
+
+    await client.create('test-model', { image: new Blob(['png']), mask: Buffer.from('png'), other: Buffer.from('other') });
+    expect(digest).toHaveBeenCalledTimes(2);
+    expect(uploadCount).toBe(5);
+  });
+
+  test('should limit the number of parallel uploads', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const upload = jest.spyOn(WaveSpeed.prototype, 'upload').mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      return { type: 'image/png', download_url: 'https://cdn.example.com/file.png', filename: 'file.png', size: 1 };
+    });
+    const client = new WaveSpeed('test-api-key', { autoUpload: { concurrency: 2 } });
+
+    await client.create('test-model', { images: [1, 2, 3, 4, 5].map(n => Buffer.from([n])) });
+
+    expect(upload).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('should upload file:// paths only when enabled', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-inputs-'));
+    try {
+      const fileUrl = pathToFileURL(path.join(tmpDir, 'photo.png')).href;
+      fs.writeFileSync(path.join(tmpDir, 'photo.png'), 'png');
+
+      await new WaveSpeed('test-api-key').create('test-model', { image: fileUrl });
+      expect(createdInput).toEqual({ image: fileUrl });
+      expect(uploadCount).toBe(0);
+
+      await new WaveSpeed('test-api-key', { autoUpload: { fileUrls: true } }).create('test-model', { image: fileUrl, mask: fileUrl });
+      expect(createdInput).toEqual({ image: 'https://cdn.example.com/png', mask: 'https://cdn.example.com/png' });
+      expect(uploadCount).toBe(1);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should leave the input alone when disabled', async () => {
+    const client = new WaveSpeed('test-api-key', { autoUpload: true });
+
+    await client.create('test-model', { image: Buffer.from('png') }, { autoUpload: false });
+
+    expect(uploadCount).toBe(0);
+    expect(createdInput.image).toEqual({ type: 'Buffer', data: [112, 110, 103] });
+  });
+
+  test('should not create the prediction when an upload fails', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(null, 400));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+
+    await expect(client.create('test-model', { image: new Blob(['png']) })).rejects.toThrow(UploadError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should accept files in place of strings of typed inputs', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'a cat', image: new Blob(['png']) });
+    expect(createdInput.image).toBe('https://cdn.example.com/png');
+
+    // @ts-expect-error numbers are not files
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'a cat', strength: new Blob(['png']) });
+  });
+});
@@ -0,0 +1,140 @@
+import { WaveSpeed, Logger, Prediction, WaveSpeedAbortError } from '../src';
+
+function createMockLogger(): Logger & { [K in keyof Logger]: jest.Mock } {
+  return {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+}
+
+describe('Logger', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should send retry notices with structured fields to a custom logger', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response('Unavailable', { status: 503, headers: { 'x-request-id': 'req-1' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, retry: { baseDelay: 1, jitter: 'none' } });
+    await client.fetchWithTimeout('/test-path');
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Request failed with status 503'),
+      expect.objectContaining({ method: 'GET', path: '/test-path', status: 503, attempt: 1, requestId: 'req-1' })
+    );
+    // Debug events are filtered out at the default level
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+
+  test('should log prediction lifecycle events at the info level', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 200,
+        data: { id: 'pred-123', model: 'test-model', status: 'created', urls: { get: '' } }
+      }), { status: 200, headers: { 'x-request-id': 'req-2' } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 200,
+        data: { id: 'pred-123', model: 'test-model', status: 'completed', outputs: ['out'], urls: { get: '' } }
+      }), { status: 200 }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, logLevel: 'info', pollInterval: 0.001 });
+    await client.run('test-model', { prompt: 'test' });
+
+    expect(logger.info).toHaveBeenCalledWith(
+      'Prediction pred-123 created',
+      expect.objectContaining({ model: 'test-model', predictionId: 'pred-123', requestId: 'req-2', latency: expect.any(Number) })
+    );
+    expect(logger.info).toHaveBeenCalledWith(
+      'Prediction pred-123 is completed',
+      expect.objectContaining({ model: 'test-model', predictionId: 'pred-123', status: 'completed' })
+    );
+  });
+
+  test('should log failed predictions at the debug level, since they are thrown', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 200,
+        data: { id: 'pred-123', model: 'test-model', status: 'created', urls: { get: '' } }
+      }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 200,
+        data: { id: 'pred-123', model: 'test-model', status: 'failed', error: 'boom', urls: { get: '' } }
+      }), { status: 200 }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, pollInterval: 0.001 });
+    await expect(client.run('test-model', { prompt: 'test' })).rejects.toThrow('boom');
+
+    // The caller gets the error, so the default level logs nothing
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+
+    const debugLogger = createMockLogger();
+    const debugClient = new WaveSpeed('test-api-key', { logger: debugLogger, logLevel: 'debug', pollInterval: 0.001 });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 200,
+        data: { id: 'pred-123', model: 'test-model', status: 'failed', error: 'boom', urls: { get: '' } }
+      }), { status: 200 }));
+    await expect(new Prediction({ id: 'pred-123', model: 'test-model', status: 'processing' }, debugClient).wait()).rejects.toThrow('boom');
+    expect(debugLogger.debug).toHaveBeenCalledWith(
+      'Prediction failed',
+      expect.objectContaining({ predictionId: 'pred-123', error: 'boom' })
+    );
+  });
+
+  test('should not log caller aborts', async () => {
+    (global.fetch as jest.Mock).mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, logLevel: 'debug' });
+    const controller = new AbortController();
+    const created = client.create('test-model', { prompt: 'test' }, { signal: controller.signal });
+    controller.abort();
+    await expect(created).rejects.toBeInstanceOf(WaveSpeedAbortError);
+
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(logger.debug).not.toHaveBeenCalledWith('Failed to create prediction', expect.anything());
+  });
+
+  test('should never pass the API key to the logger', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Invalid key test-api-key', { status: 401 }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, logLevel: 'debug' });
+    await expect(client.create('test-model', { prompt: 'test' })).rejects.toThrow();
+
+    const logged = JSON.stringify([logger.debug.mock.calls, logger.error.mock.calls]);
+    expect(logger.debug).toHaveBeenCalledWith('Failed to create prediction', expect.anything());
+    expect(logged).not.toContain('test-api-key');
+    expect(logged).toContain('[REDACTED]');
+  });
+
+  test('should log nothing when the level is silent', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Unavailable', { status: 503 }));
+
+    const logger = createMockLogger();
+    const client = new WaveSpeed('test-api-key', { logger, logLevel: 'silent', retry: { maxRetries: 1, baseDelay: 1 } });
+    await client.fetchWithTimeout('/test-path');
+
+    for (const method of Object.values(logger)) {
+      expect(method).not.toHaveBeenCalled();
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { WaveSpeed, Prediction, ModelInput, ModelOutput } from '../src';
+
+// Private models are typed by augmenting the ModelMap
+declare module '../src' {
+  interface ModelMap {
+    'test-team/upscaler': { input: { image: string; scale?: 2 | 4 }; output: [string] };
+  }
+}
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+function assertType<T extends true>(): T | void {}
+
+describe('Typed models', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn().mockImplementation(async (_url: string, init: RequestInit) => new Response(JSON.stringify({
+      code: 200,
+      data: {
+        id: 'pred-123',
+        model: 'test-team/upscaler',
+        status: 'completed',
+        input: JSON.parse(init.body as string),
+        outputs: ['https://example.com/out.png'],
+        urls: { get: '' }
+      }
+    }), { status: 200 }));
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should type the input and outputs of registered models', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = await client.create('test-team/upscaler', { image: 'https://example.com/in.png', scale: 4 });
+
+    assertType<Equals<typeof prediction, Prediction<'test-team/upscaler'>>>();
+    assertType<Equals<typeof prediction.input, { image: string; scale?: 2 | 4 }>>();
+    assertType<Equals<typeof prediction.outputs, [string]>>();
+    expect(prediction.input.scale).toBe(4);
+    expect(prediction.outputs[0]).toBe('https://example.com/out.png');
+  });
+
+  test('should reject unknown fields and wrong types of registered models at compile time', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    // @ts-expect-error typo of num_inference_steps
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'test', num_inference_step: 28 });
+    // @ts-expect-error prompt is required
+    await client.create('wavespeed-ai/flux-dev', { size: '1024*1024' });
+    // @ts-expect-error scale must be 2 or 4
+    await client.create('test-team/upscaler', { image: 'https://example.com/in.png', scale: 3 });
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should fall back to loose types for unknown models', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const modelId: string = 'someone/unknown-model';
+    const prediction = await client.create(modelId, { anything: true });
+    const literal = await client.create('someone/other-model', { whatever: 1 });
+
+    assertType<Equals<typeof prediction.input, Record<string, any>>>();
+    assertType<Equals<typeof prediction.outputs, string[]>>();
+    assertType<Equals<ModelInput<'someone/other-model'>, Record<string, any>>>();
+    assertType<Equals<ModelOutput<string>, string[]>>();
+    expect(literal.input).toEqual({ whatever: 1 });
+  });
+});
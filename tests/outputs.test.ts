@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InlineOutput, Prediction, WaveSpeed } from '../src';
+
+// PNG signature followed by filler bytes standing in for a large image
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Array(1000).fill(7)]);
+const PNG_BASE64 = Buffer.from(PNG_BYTES).toString('base64');
+
+describe('Inline outputs', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should read the type and size of bare base64 without decoding it', () => {
+    const atobSpy = jest.spyOn(global, 'atob');
+    const output = new InlineOutput(PNG_BASE64, 0);
+
+    expect(output.type).toBe('image/png');
+    expect(output.size).toBe(PNG_BYTES.length);
+    expect(output.toDataUri()).toBe(`data:image/png;base64,${PNG_BASE64}`);
+    // Only the first bytes were decoded to detect the type
+    expect(atobSpy).toHaveBeenCalledTimes(1);
+    expect(atobSpy.mock.calls[0][0].length).toBeLessThanOrEqual(64);
+  });
+
+  test('should decode outputs as bytes and Blobs', async () => {
+    const output = new InlineOutput(PNG_BASE64, 0);
+
+    expect(output.bytes()).toEqual(PNG_BYTES);
+    const blob = output.blob();
+    expect(blob.type).toBe('image/png');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(PNG_BYTES);
+  });
+
+  test('should take the type of data URIs from their header', () => {
+    const output = new InlineOutput(`data:image/webp;base64,${Buffer.from('webp').toString('base64')}`, 2);
+
+    expect(output.index).toBe(2);
+    expect(output.type).toBe('image/webp');
+    expect(output.size).toBe(4);
+    expect(new TextDecoder().decode(output.bytes())).toBe('webp');
+  });
+
+  test('should request base64 outputs and keep outputs as returned', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(JSON.stringify({
+      code: 200,
+      data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'completed', outputs: [PNG_BASE64], urls: { get: '' } }
+    }), { status: 200 }));
+    const client = new WaveSpeed('test-api-key');
+
+    const prediction = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' }, { base64Output: true });
+
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toEqual({ prompt: 'a cat', enable_base64_output: true });
+    expect(prediction.outputs).toEqual([PNG_BASE64]);
+    const [output] = prediction.inlineOutputs();
+    expect(output).toBeInstanceOf(InlineOutput);
+    expect(output!.bytes()).toEqual(PNG_BYTES);
+  });
+
+  test('should leave URL outputs out of the inline outputs', () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = new Prediction({
+      id: 'pred-123',
+      model: 'wavespeed-ai/flux-dev',
+      status: 'completed',
+      outputs: ['https://cdn.example.com/outputs/first.png', PNG_BASE64],
+    }, client);
+
+    expect(prediction.inlineOutputs().map(output => output && output.index)).toEqual([null, 1]);
+  });
+
+  test('should download inline outputs without a request', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-outputs-'));
+    try {
+      const client = new WaveSpeed('test-api-key');
+      const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'completed', outputs: [PNG_BASE64] }, client);
+
+      const [file] = await prediction.download({ dir: tmpDir });
+
+      expect(path.basename(file)).toBe('pred-123_0.png');
+      expect(new Uint8Array(fs.readFileSync(file))).toEqual(PNG_BYTES);
+      expect(global.fetch).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
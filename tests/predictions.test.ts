@@ -0,0 +1,103 @@
+import { Prediction, WaveSpeed, WaveSpeedAPIError } from '../src';
+
+function listingResponse(ids: string[], total?: number): Response {
+  const items = ids.map(id => ({ id, model: 'wavespeed-ai/flux-dev', status: 'completed', outputs: [`https://cdn.example.com/${id}.png`] }));
+  return new Response(JSON.stringify({ code: 200, message: 'success', data: { items, total } }), { status: 200 });
+}
+
+function requestedQuery(call: number): URLSearchParams {
+  return new URL((global.fetch as jest.Mock).mock.calls[call][0]).searchParams;
+}
+
+describe('Prediction history', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should iterate over every page', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(listingResponse(['pred-1', 'pred-2']))
+      .mockResolvedValueOnce(listingResponse(['pred-3', 'pred-4']))
+      .mockResolvedValueOnce(listingResponse(['pred-5']));
+    const client = new WaveSpeed('test-api-key');
+
+    const predictions: Prediction[] = [];
+    for await (const prediction of client.predictions.list({ pageSize: 2 })) {
+      predictions.push(prediction);
+    }
+
+    expect(predictions.map(prediction => prediction.id)).toEqual(['pred-1', 'pred-2', 'pred-3', 'pred-4', 'pred-5']);
+    expect(predictions[0]).toBeInstanceOf(Prediction);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect([0, 1, 2].map(call => requestedQuery(call).get('page'))).toEqual(['1', '2', '3']);
+  });
+
+  test('should send the filters as query parameters', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(listingResponse([]));
+    const client = new WaveSpeed('test-api-key');
+
+    const iterator = client.predictions.list({
+      model: 'wavespeed-ai/flux-dev',
+      status: 'failed',
+      createdAfter: new Date('2024-05-01T00:00:00Z'),
+      createdBefore: Date.UTC(2024, 5, 1),
+    });
+    expect((await iterator.next()).done).toBe(true);
+
+    const url = (global.fetch as jest.Mock).mock.calls[0][0] as string;
+    expect(url.startsWith('https://api.wavespeed.ai/api/v3/predictions?')).toBe(true);
+    expect(Object.fromEntries(requestedQuery(0))).toEqual({
+      page: '1',
+      page_size: '50',
+      model: 'wavespeed-ai/flux-dev',
+      status: 'failed',
+      created_after: '2024-05-01T00:00:00.000Z',
+      created_before: '2024-06-01T00:00:00.000Z',
+    });
+  });
+
+  test('should stop at the reported total and when iteration stops early', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(listingResponse(['pred-1', 'pred-2'], 4))
+      .mockResolvedValueOnce(listingResponse(['pred-3', 'pred-4'], 4));
+    const client = new WaveSpeed('test-api-key');
+
+    const ids: string[] = [];
+    for await (const prediction of client.predictions.list({ pageSize: 2 })) {
+      ids.push(prediction.id);
+    }
+    expect(ids).toEqual(['pred-1', 'pred-2', 'pred-3', 'pred-4']);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(listingResponse(['pred-1', 'pred-2'], 4));
+    for await (const prediction of client.predictions.list({ pageSize: 2 })) {
+      expect(prediction.id).toBe('pred-1');
+      break;
+    }
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should return single pages', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(listingResponse(['pred-3'], 3));
+    const client = new WaveSpeed('test-api-key');
+
+    const page = await client.predictions.page(2, { pageSize: 2 });
+
+    expect(page).toMatchObject({ page: 2, pageSize: 2, total: 3, hasMore: false });
+    expect(page.predictions[0].outputs).toEqual(['https://cdn.example.com/pred-3.png']);
+  });
+
+  test('should throw a WaveSpeedAPIError when listing fails', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(JSON.stringify({ code: 401, message: 'unauthorized' }), { status: 401 }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+
+    await expect(client.predictions.list().next()).rejects.toThrow(WaveSpeedAPIError);
+  });
+});
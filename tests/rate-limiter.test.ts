@@ -0,0 +1,119 @@
+import { WaveSpeed, RateLimiter, WaveSpeedAbortError } from '../src';
+
+describe('RateLimiter', () => {
+  test('should space requests according to the token bucket', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+    const startTimes: number[] = [];
+
+    await Promise.all([0, 1, 2].map(async () => {
+      const release = await limiter.acquire();
+      startTimes.push(Date.now());
+      release();
+    }));
+
+    // 20 requests per second is one every 50ms
+    expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(90);
+    expect(limiter.stats.throttled).toBe(2);
+    expect(limiter.stats.maxWaitTime).toBeGreaterThanOrEqual(90);
+  });
+
+  test('should let requests through at rates below one per second', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0.5 });
+    expect(limiter.burst).toBe(1);
+    expect(new RateLimiter({ requestsPerSecond: 0.5, burst: 0.2 }).burst).toBe(1);
+
+    const release = await limiter.acquire();
+    release();
+    expect(limiter.stats.throttled).toBe(0);
+  });
+
+  test('should cap the number of requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    const release = await limiter.acquire();
+    const second = limiter.acquire();
+    expect(limiter.stats).toEqual(expect.objectContaining({ queued: 1, inFlight: 1 }));
+
+    release();
+    const releaseSecond = await second;
+    expect(limiter.stats).toEqual(expect.objectContaining({ queued: 0, inFlight: 1 }));
+    releaseSecond();
+    expect(limiter.stats.inFlight).toBe(0);
+  });
+
+  test('should hold back every request while paused', async () => {
+    const limiter = new RateLimiter();
+    limiter.pause(60);
+    expect(limiter.stats.pausedUntil).toBeGreaterThan(Date.now());
+
+    const startedAt = Date.now();
+    const release = await limiter.acquire();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(50);
+    release();
+  });
+
+  test('should stop waiting when the signal is aborted', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const controller = new AbortController();
+
+    const release = await limiter.acquire();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(WaveSpeedAbortError);
+    expect(limiter.stats.queued).toBe(0);
+    release();
+  });
+});
+
+describe('Client rate limiting', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should pause the whole client on Retry-After', async () => {
+    const originalConsoleWarn = console.warn;
+    console.warn = jest.fn();
+    const startTimes: Record<string, number[]> = { a: [], b: [] };
+    let rateLimited = false;
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const name = url.endsWith('/a') ? 'a' : 'b';
+      startTimes[name].push(Date.now());
+      if (name === 'a' && !rateLimited) {
+        rateLimited = true;
+        return new Response('Rate limit exceeded', { status: 429, headers: { 'Retry-After': '0.1' } });
+      }
+      return new Response('{}', { status: 200 });
+    });
+
+    const client = new WaveSpeed('test-api-key', { rateLimit: { maxConcurrency: 10 } });
+    const first = client.fetchWithTimeout('/a');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(client.rateLimiter!.stats.pausedUntil).toBeDefined();
+
+    const second = client.fetchWithTimeout('/b');
+    const [firstResponse, secondResponse] = await Promise.all([first, second]);
+
+    expect(firstResponse.status).toBe(200);
+    expect(secondResponse.status).toBe(200);
+    expect(startTimes.a[1] - startTimes.a[0]).toBeGreaterThanOrEqual(90);
+    expect(startTimes.b[0] - startTimes.a[0]).toBeGreaterThanOrEqual(90);
+    console.warn = originalConsoleWarn;
+  });
+
+  test('should share the limit between requests of the client', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => new Response('{}', { status: 200 }));
+
+    const client = new WaveSpeed('test-api-key', { rateLimit: { requestsPerSecond: 20, burst: 1 } });
+    await Promise.all([client.fetchWithTimeout('/a'), client.fetchWithTimeout('/b'), client.fetchWithTimeout('/c')]);
+
+    expect(client.rateLimiter!.stats.throttled).toBe(2);
+  });
+});
@@ -0,0 +1,131 @@
+import { WaveSpeed, CircuitBreaker, CircuitOpenError, WaveSpeedNetworkError } from '../src';
+
+describe('Retry policy', () => {
+  const originalFetch = global.fetch;
+  const originalConsoleWarn = console.warn;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+    console.warn = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+    console.warn = originalConsoleWarn;
+  });
+
+  test('should not retry when maxRetries is 0', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Rate limit exceeded', { status: 429 }));
+
+    const client = new WaveSpeed('test-api-key');
+    const response = await client.fetchWithTimeout('/test-path', { maxRetries: 0 });
+
+    expect(response.status).toBe(429);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should retry POST requests on server errors when retryNonIdempotent is set', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    const client = new WaveSpeed('test-api-key', { retry: { retryNonIdempotent: true, baseDelay: 1, jitter: 'none' } });
+    const response = await client.fetchWithTimeout('/test-path', { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not retry POST requests on network errors by default', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const client = new WaveSpeed('test-api-key', { retry: { baseDelay: 1 } });
+
+    await expect(client.fetchWithTimeout('/test-path', { method: 'POST' }))
+      .rejects.toBeInstanceOf(WaveSpeedNetworkError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should let the request override the client policy', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Conflict', { status: 409 }));
+
+    const client = new WaveSpeed('test-api-key', { retry: { maxRetries: 5, baseDelay: 1, jitter: 'none' } });
+    const response = await client.fetchWithTimeout('/test-path', { retry: { maxRetries: 2, retryableStatuses: [409] } });
+
+    expect(response.status).toBe(409);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should stop retrying once the retry budget is spent', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve(new Response('Unavailable', { status: 503 })));
+
+    const client = new WaveSpeed('test-api-key', {
+      retry: { maxRetries: 10, baseDelay: 20, jitter: 'none', retryBudget: 100 }
+    });
+    const response = await client.fetchWithTimeout('/test-path');
+
+    // Delays of 40ms and 80ms exceed the 100ms budget on the second retry
+    expect(response.status).toBe(503);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should cap and jitter the backoff time', () => {
+    const client = new WaveSpeed('test-api-key');
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(client._getBackoffTime(1, 1000)).toBe(2500);
+    expect(client._getBackoffTime(3, 1000, 'none', 5000)).toBe(5000);
+    expect(client._getBackoffTime(1, 1000, 'full')).toBe(1000);
+    expect(client._getBackoffTime(1, 1000, 'equal')).toBe(1500);
+    expect(client._getBackoffTime(2, 1000, 'additive', 5000)).toBe(5000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should open after repeated failures and half-open after the cooldown', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 30 });
+
+    breaker.check();
+    breaker.recordFailure();
+    breaker.check();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+    breaker.check();
+    expect(breaker.state).toBe('half-open');
+    // Only one trial request at a time
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('should make the client fail fast once open', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve(new Response('Unavailable', { status: 503 })));
+
+    const client = new WaveSpeed('test-api-key', {
+      retry: { maxRetries: 0 },
+      circuitBreaker: { failureThreshold: 2, cooldown: 60000 }
+    });
+    await client.fetchWithTimeout('/test-path');
+    await client.fetchWithTimeout('/test-path');
+
+    await expect(client.fetchWithTimeout('/test-path')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(client.circuitBreaker!.state).toBe('open');
+  });
+});
@@ -0,0 +1,162 @@
+import { WaveSpeed, Prediction, WaveSpeedAbortError, WaveSpeedAPIError } from '../src';
+
+describe('PollScheduler', () => {
+  const originalFetch = global.fetch;
+
+  const predictionData = (id: string, status: string) => ({
+    id,
+    model: 'wavespeed-ai/flux-dev',
+    status,
+  });
+
+  const jsonResponse = (body: any, status = 200) => new Response(JSON.stringify(body), { status });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should cap the number of status requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      inFlight--;
+      const id = url.split('/').slice(-2)[0];
+      return jsonResponse({ data: predictionData(id, 'completed') });
+    });
+
+    const client = new WaveSpeed('test-api-key', {
+      pollScheduler: { maxConcurrency: 2, maxRequestsPerSecond: 1000 }
+    });
+    const predictions = Array.from({ length: 6 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    const results = await Promise.all(predictions.map(prediction => prediction.wait()));
+
+    expect(results.every(result => result.status === 'completed')).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('should spread requests according to maxRequestsPerSecond', async () => {
+    const startTimes: number[] = [];
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      startTimes.push(Date.now());
+      const id = url.split('/').slice(-2)[0];
+      return jsonResponse({ data: predictionData(id, 'completed') });
+    });
+
+    const client = new WaveSpeed('test-api-key', {
+      pollScheduler: { maxConcurrency: 10, maxRequestsPerSecond: 20 }
+    });
+    const predictions = Array.from({ length: 4 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    await Promise.all(predictions.map(prediction => prediction.wait()));
+
+    // 20 requests per second is one every 50ms
+    expect(startTimes[3] - startTimes[0]).toBeGreaterThanOrEqual(140);
+  });
+
+  test('should poll many predictions through the batch endpoint', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) => {
+      const { ids } = JSON.parse(init.body as string);
+      return jsonResponse({ code: 200, data: ids.map((id: string) => predictionData(id, 'completed')) });
+    });
+
+    const client = new WaveSpeed('test-api-key', {
+      pollScheduler: { batchPath: 'predictions/batch', maxRequestsPerSecond: 1 }
+    });
+    const predictions = Array.from({ length: 3 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    await Promise.all(predictions.map(prediction => prediction.wait()));
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/predictions/batch',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ ids: ['pred-0', 'pred-1', 'pred-2'] }) })
+    );
+    expect(predictions.map(prediction => prediction.status)).toEqual(['completed', 'completed', 'completed']);
+  });
+
+  test('should fall back to individual polls when the batch endpoint is missing', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('predictions/batch')) {
+        return new Response('Not found', { status: 404 });
+      }
+      const id = url.split('/').slice(-2)[0];
+      return jsonResponse({ data: predictionData(id, 'completed') });
+    });
+
+    const client = new WaveSpeed('test-api-key', {
+      pollScheduler: { batchPath: 'predictions/batch', maxRequestsPerSecond: 1000 }
+    });
+    const predictions = Array.from({ length: 2 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    await Promise.all(predictions.map(prediction => prediction.wait()));
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(predictions.map(prediction => prediction.status)).toEqual(['completed', 'completed']);
+  });
+
+  test('should poll individually when a batch request fails transiently', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      if (url.endsWith('predictions/batch')) {
+        return new Response('Service unavailable', { status: 503 });
+      }
+      const id = url.split('/').slice(-2)[0];
+      return jsonResponse({ data: predictionData(id, 'completed') });
+    });
+
+    const client = new WaveSpeed('test-api-key', {
+      logLevel: 'silent',
+      pollScheduler: { batchPath: 'predictions/batch', maxRequestsPerSecond: 1000 }
+    });
+    const predictions = Array.from({ length: 2 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    await Promise.all(predictions.map(prediction => prediction.wait()));
+
+    expect(predictions.map(prediction => prediction.status)).toEqual(['completed', 'completed']);
+    const urls = (global.fetch as jest.Mock).mock.calls.map(call => call[0]);
+    expect(urls.filter(url => url.endsWith('/result'))).toHaveLength(2);
+  });
+
+  test('should reject the batch when the batch request is refused', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(jsonResponse({ code: 401, message: 'unauthorized' }, 401));
+
+    const client = new WaveSpeed('test-api-key', {
+      logLevel: 'silent',
+      pollScheduler: { batchPath: 'predictions/batch', maxRequestsPerSecond: 1000 }
+    });
+    const predictions = Array.from({ length: 2 }, (_, i) => new Prediction(predictionData(`pred-${i}`, 'processing'), client));
+
+    const results = await Promise.all(predictions.map(prediction => prediction.wait().catch(error => error)));
+
+    expect(results.every(result => result instanceof WaveSpeedAPIError && result.status === 401)).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should drop a waiter from the schedule when its signal is aborted', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const id = url.split('/').slice(-2)[0];
+      return jsonResponse({ data: predictionData(id, 'processing') });
+    });
+
+    const client = new WaveSpeed('test-api-key', { pollInterval: 60, pollScheduler: true });
+    const prediction = new Prediction(predictionData('pred-0', 'processing'), client);
+    const controller = new AbortController();
+
+    const promise = prediction.wait({ signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(WaveSpeedAbortError);
+    expect(client.pollScheduler!.pending).toBe(0);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
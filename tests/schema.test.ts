@@ -0,0 +1,70 @@
+import { validateSchema, JSONSchema } from '../src';
+
+describe('validateSchema', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    required: ['prompt'],
+    additionalProperties: false,
+    properties: {
+      prompt: { type: 'string', minLength: 1 },
+      size: { type: 'string', enum: ['512*512', '1024*1024'], default: '1024*1024' },
+      guidance_scale: { type: 'number', minimum: 1, maximum: 10, default: 3.5 },
+      num_images: { type: 'integer', minimum: 1, maximum: 4 },
+      loras: {
+        type: 'array',
+        maxItems: 2,
+        items: {
+          type: 'object',
+          required: ['path'],
+          properties: { path: { type: 'string' }, scale: { type: 'number', minimum: 0, maximum: 4 } }
+        }
+      },
+    }
+  };
+
+  test('should fill in defaults without modifying the input', () => {
+    const input = { prompt: 'a cat' };
+    const { value, issues } = validateSchema(schema, input);
+
+    expect(issues).toEqual([]);
+    expect(value).toEqual({ prompt: 'a cat', size: '1024*1024', guidance_scale: 3.5 });
+    expect(input).toEqual({ prompt: 'a cat' });
+  });
+
+  test('should report every offending field', () => {
+    const { issues } = validateSchema(schema, {
+      size: '1000*1000',
+      guidance_scale: 12,
+      num_images: 1.5,
+      loras: [{ scale: -1 }],
+      num_inference_step: 28,
+    });
+
+    expect(issues.map(issue => [issue.path, issue.keyword])).toEqual([
+      ['size', 'enum'],
+      ['guidance_scale', 'maximum'],
+      ['num_images', 'type'],
+      ['loras[0].scale', 'minimum'],
+      ['loras[0].path', 'required'],
+      ['prompt', 'required'],
+      ['num_inference_step', 'additionalProperties'],
+    ]);
+    expect(issues[0].message).toBe('size must be one of "512*512", "1024*1024", got "1000*1000"');
+    expect(issues[1].message).toBe('guidance_scale must be <= 10, got 12');
+  });
+
+  test('should support type unions, patterns and alternatives', () => {
+    const alternatives: JSONSchema = {
+      type: 'object',
+      properties: {
+        seed: { type: ['integer', 'null'] },
+        image: { type: 'string', pattern: '^https?://' },
+        strength: { anyOf: [{ type: 'number', maximum: 1 }, { type: 'string', enum: ['auto'] }] },
+      }
+    };
+
+    expect(validateSchema(alternatives, { seed: null, image: 'https://example.com/a.png', strength: 'auto' }).issues).toEqual([]);
+    expect(validateSchema(alternatives, { seed: 'x', image: 'file.png', strength: 2 }).issues.map(issue => issue.keyword))
+      .toEqual(['type', 'pattern', 'anyOf']);
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash, createHmac } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemStorage, Prediction, S3Storage, StorageError, WaveSpeed } from '../src';
+
+const ACCESS_KEY_ID = 'minio-access-key';
+const SECRET_ACCESS_KEY = 'minio-secret-key';
+
+function streamOf(content: string): ReadableStream<Uint8Array> {
+  return new Response(content).body!;
+}
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify({ code: 200, message: 'success', data }), { status: 200 });
+}
+
+/**
+ * Check the AWS Signature Version 4 of a request the way S3 does
+ */
+function verifySignature(req: http.IncomingMessage, body: Buffer): boolean {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/
+    .exec(req.headers.authorization || '');
+  if (!match || match[1] !== ACCESS_KEY_ID) {
+    return false;
+  }
+  const [, , date, region, signedHeaders, signature] = match;
+  const payloadHash = createHash('sha256').update(body).digest('hex');
+  if (req.headers['x-amz-content-sha256'] !== payloadHash) {
+    return false;
+  }
+  const canonicalRequest = [
+    req.method,
+    req.url,
+    '',
+    ...signedHeaders.split(';').map(name => `${name}:${String(req.headers[name]).trim()}`),
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    req.headers['x-amz-date'],
+    `${date}/${region}/s3/aws4_request`,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+  let key: Buffer = createHmac('sha256', `AWS4${SECRET_ACCESS_KEY}`).update(date).digest();
+  for (const part of [region, 's3', 'aws4_request']) {
+    key = createHmac('sha256', key).update(part).digest();
+  }
+  return createHmac('sha256', key).update(stringToSign).digest('hex') === signature;
+}
+
+describe('FileSystemStorage', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should write objects under the directory', async () => {
+    const storage = new FileSystemStorage({ dir: tmpDir });
+
+    const location = await storage.put({ key: 'model/pred-1/0.png', body: streamOf('png'), contentType: 'image/png' });
+
+    expect(location).toBe(path.join(tmpDir, 'model', 'pred-1', '0.png'));
+    expect(fs.readFileSync(location, 'utf8')).toBe('png');
+  });
+
+  test('should refuse keys outside of the directory', async () => {
+    const storage = new FileSystemStorage({ dir: path.join(tmpDir, 'outputs') });
+
+    await expect(storage.put({ key: '../escape.png', body: streamOf('png'), contentType: 'image/png' })).rejects.toThrow(StorageError);
+    expect(fs.existsSync(path.join(tmpDir, 'escape.png'))).toBe(false);
+  });
+});
+
+describe('S3Storage', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let objects: Map<string, { body: string; contentType: string }>;
+
+  beforeAll(async () => {
+    // Stand-in for an S3-compatible service such as MinIO, with path-style addressing
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        if (req.method !== 'PUT' || !verifySignature(req, body)) {
+          res.writeHead(403, { 'content-type': 'application/xml' });
+          res.end('<?xml version="1.0" encoding="UTF-8"?><Error><Code>SignatureDoesNotMatch</Code></Error>');
+          return;
+        }
+        objects.set(decodeURIComponent(req.url!), { body: body.toString(), contentType: req.headers['content-type']! });
+        res.writeHead(200, { etag: '"etag"' });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    objects = new Map();
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  });
+
+  test('should upload signed objects and return their URL', async () => {
+    const storage = new S3Storage({ bucket: 'assets', endpoint, accessKeyId: ACCESS_KEY_ID, secretAccessKey: SECRET_ACCESS_KEY, prefix: 'outputs/' });
+
+    const location = await storage.put({ key: 'my model/pred 1/0.png', body: streamOf('png'), contentType: 'image/png' });
+
+    expect(location).toBe(`${endpoint}/assets/outputs/my%20model/pred%201/0.png`);
+    expect(objects.get('/assets/outputs/my model/pred 1/0.png')).toEqual({ body: 'png', contentType: 'image/png' });
+  });
+
+  test('should return locations under the public URL', async () => {
+    const storage = new S3Storage({
+      bucket: 'assets',
+      region: 'eu-west-1',
+      endpoint,
+      accessKeyId: ACCESS_KEY_ID,
+      secretAccessKey: SECRET_ACCESS_KEY,
+      publicUrl: 'https://assets.example.com/',
+    });
+
+    expect(await storage.put({ key: 'a/0.jpg', body: streamOf('jpg'), contentType: 'image/jpeg' })).toBe('https://assets.example.com/a/0.jpg');
+  });
+
+  test('should address AWS buckets virtual-hosted-style', () => {
+    const storage = new S3Storage({ bucket: 'assets', region: 'eu-west-1', accessKeyId: ACCESS_KEY_ID, secretAccessKey: SECRET_ACCESS_KEY });
+
+    expect(storage.objectUrl('a/0.png')).toBe('https://assets.s3.eu-west-1.amazonaws.com/a/0.png');
+  });
+
+  test('should throw a StorageError when the service rejects the object', async () => {
+    const storage = new S3Storage({ bucket: 'assets', endpoint, accessKeyId: ACCESS_KEY_ID, secretAccessKey: 'wrong-secret' });
+
+    const error = await storage.put({ key: 'a/0.png', body: streamOf('png'), contentType: 'image/png' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.message).toBe('Failed to store a/0.png in bucket assets: 403 SignatureDoesNotMatch');
+    expect(error.status).toBe(403);
+    expect(objects.size).toBe(0);
+  });
+
+  describe('with run()', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      global.fetch = jest.fn().mockImplementation(async (url: string, init: RequestInit) => {
+        if (url.startsWith('https://cdn.example.com/')) {
+          return new Response(`content of ${url.split('/').pop()}`, { status: 200, headers: { 'content-type': 'image/png' } });
+        }
+        const status = init.method === 'POST' ? 'created' : 'completed';
+        return jsonResponse({
+          id: 'pred-123',
+          model: 'wavespeed-ai/flux-dev',
+          status,
+          outputs: status === 'completed' ? ['https://cdn.example.com/a', 'https://cdn.example.com/b'] : [],
+          has_nsfw_contents: [false, true],
+          urls: { get: '' },
+        });
+      });
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should copy the outputs into storage and record their locations', async () => {
+      const adapter = new S3Storage({ bucket: 'assets', endpoint, accessKeyId: ACCESS_KEY_ID, secretAccessKey: SECRET_ACCESS_KEY, fetch: originalFetch });
+      const client = new WaveSpeed('test-api-key', { pollInterval: 0.01, storage: { adapter } });
+
+      const prediction = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' });
+
+      expect(prediction.outputs).toEqual(['https://cdn.example.com/a', 'https://cdn.example.com/b']);
+      expect(prediction.persistedOutputs).toEqual([
+        `${endpoint}/assets/wavespeed-ai_flux-dev/pred-123/0.png`,
+        `${endpoint}/assets/wavespeed-ai_flux-dev/pred-123/1.png`,
+      ]);
+      expect(objects.get('/assets/wavespeed-ai_flux-dev/pred-123/1.png')).toEqual({ body: 'content of b', contentType: 'image/png' });
+
+      // Reloading keeps the client-side locations
+      await prediction.reload();
+      expect(prediction.persistedOutputs).toHaveLength(2);
+    });
+
+    test('should reject with a StorageError carrying the completed prediction', async () => {
+      const adapter = { put: jest.fn().mockRejectedValue(new Error('disk full')) };
+      const client = new WaveSpeed('test-api-key', { pollInterval: 0.01, logLevel: 'silent', storage: { adapter } });
+
+      const error = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(StorageError);
+      expect(error.message).toBe('Failed to store wavespeed-ai_flux-dev/pred-123/0.png: disk full');
+      expect(error.cause).toEqual(new Error('disk full'));
+      expect(error.prediction).toBeInstanceOf(Prediction);
+      expect(error.prediction).toMatchObject({ id: 'pred-123', status: 'completed', outputs: ['https://cdn.example.com/a', 'https://cdn.example.com/b'] });
+    });
+
+    test('should leave out flagged outputs and honor persist: false', async () => {
+      const adapter = { put: jest.fn().mockImplementation(async ({ key }) => `memory://${key}`) };
+      const client = new WaveSpeed('test-api-key', { pollInterval: 0.01, storage: { adapter, keyTemplate: '{id}-{index}.{ext}', skipNsfw: true } });
+
+      const prediction = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' });
+      expect(prediction.persistedOutputs).toEqual(['memory://pred-123-0.png', null]);
+
+      const unpersisted = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' }, { persist: false });
+      expect(unpersisted.persistedOutputs).toBeUndefined();
+      expect(adapter.put).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WaveSpeed, WaveSpeedError, createNodeFetch } from '../src';
+import { resolveProxy, shouldBypassProxy } from '../src/transport';
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => {
+    server.close(() => resolve());
+    // Drop idle keep-alive connections instead of waiting for them to time out
+    server.closeAllConnections();
+  });
+}
+
+describe('Injectable fetch', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send every request through the provided fetch', async () => {
+    const customFetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({
+      code: 200,
+      data: { id: 'pred-123', model: 'test-model', status: 'created', urls: { get: '' } }
+    }), { status: 200 }));
+    const globalFetch = jest.spyOn(global, 'fetch');
+
+    const client = new WaveSpeed('test-api-key', { fetch: customFetch });
+    const prediction = await client.create('test-model', { prompt: 'test' });
+
+    expect(prediction.id).toBe('pred-123');
+    expect(customFetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/test-model',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  test('should reject transport options outside Node.js with a WaveSpeedError', () => {
+    const versions = process.versions;
+    Object.defineProperty(process, 'versions', { value: {}, configurable: true });
+    try {
+      expect(() => createNodeFetch()).toThrow(WaveSpeedError);
+    } finally {
+      Object.defineProperty(process, 'versions', { value: versions, configurable: true, enumerable: true });
+    }
+  });
+});
+
+describe('Node transport', () => {
+  let server: http.Server;
+  let serverUrl: string;
+  const requests: http.IncomingMessage[] = [];
+  const bodies: string[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        bodies.push(body);
+        const redirect = /^\/redirect\/(\d+)\?to=(.*)$/.exec(req.url!);
+        if (redirect) {
+          res.writeHead(Number(redirect[1]), { location: decodeURIComponent(redirect[2]) });
+          res.end('moved');
+          return;
+        }
+        if (req.url === '/slow') {
+          setTimeout(() => res.end('late'), 500);
+          return;
+        }
+        res.setHeader('content-type', 'application/json');
+        res.setHeader('x-request-id', 'req-1');
+        res.end(JSON.stringify({ method: req.method, url: req.url }));
+      });
+    });
+    serverUrl = await listen(server);
+  });
+
+  afterAll(async () => {
+    await close(server);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    requests.length = 0;
+    bodies.length = 0;
+  });
+
+  test('should perform requests and expose the response like fetch', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+    const response = await nodeFetch(`${serverUrl}/echo?x=1`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ prompt: 'test' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-request-id')).toBe('req-1');
+    expect(await response.json()).toEqual({ method: 'POST', url: '/echo?x=1' });
+    expect(bodies[0]).toBe('{"prompt":"test"}');
+  });
+
+  test('should reuse connections when keep-alive is enabled', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+    await (await nodeFetch(`${serverUrl}/a`)).text();
+    await (await nodeFetch(`${serverUrl}/b`)).text();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].socket.remotePort).toBe(requests[1].socket.remotePort);
+  });
+
+  test('should serialize form data bodies', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+    const form = new FormData();
+    form.append('file', new Blob(['hello']), 'hello.txt');
+    await (await nodeFetch(`${serverUrl}/upload`, { method: 'POST', body: form })).text();
+
+    expect(requests[0].headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(bodies[0]).toContain('filename="hello.txt"');
+    expect(bodies[0]).toContain('hello');
+  });
+
+  test('should report aborts and network errors the way fetch does', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(nodeFetch(`${serverUrl}/slow`, { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    await expect(nodeFetch('http://127.0.0.1:1/unreachable')).rejects.toBeInstanceOf(TypeError);
+  });
+
+  test('should follow redirects the way fetch does', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+    const init = { method: 'POST', headers: { authorization: 'Bearer key' }, body: 'payload' };
+
+    // 302 after a POST switches to a GET without the body
+    const found = await nodeFetch(`${serverUrl}/redirect/302?to=/target`, init);
+    expect(found.status).toBe(200);
+    expect(await found.json()).toEqual({ method: 'GET', url: '/target' });
+    expect(requests[1].headers.authorization).toBe('Bearer key');
+    expect(requests[1].headers['content-length']).toBeUndefined();
+
+    // 307 keeps the method and body, and the API key stays on its origin
+    const otherOrigin = serverUrl.replace('127.0.0.1', 'localhost');
+    const temporary = await nodeFetch(`${serverUrl}/redirect/307?to=${encodeURIComponent(`${otherOrigin}/moved`)}`, init);
+    expect(await temporary.json()).toEqual({ method: 'POST', url: '/moved' });
+    expect(bodies[3]).toBe('payload');
+    expect(requests[3].headers.authorization).toBeUndefined();
+  });
+
+  test('should honor the manual and error redirect modes', async () => {
+    const nodeFetch = createNodeFetch({ proxy: false });
+
+    const manual = await nodeFetch(`${serverUrl}/redirect/301?to=/target`, { redirect: 'manual' });
+    expect(manual.status).toBe(301);
+    expect(manual.headers.get('location')).toBe('/target');
+    expect(await manual.text()).toBe('moved');
+    await expect(nodeFetch(`${serverUrl}/redirect/301?to=/target`, { redirect: 'error' })).rejects.toBeInstanceOf(TypeError);
+    expect(requests).toHaveLength(2);
+  });
+
+  test('should route the client requests through an HTTP proxy', async () => {
+    const proxied: string[] = [];
+    const proxy = http.createServer((req, res) => {
+      proxied.push(`${req.url} ${req.headers['proxy-authorization']}`);
+      const target = new URL(req.url!);
+      const upstream = http.request({
+        host: target.hostname,
+        port: target.port,
+        path: target.pathname + target.search,
+        method: req.method,
+        headers: req.headers,
+      }, upstreamResponse => {
+        res.writeHead(upstreamResponse.statusCode!, upstreamResponse.headers);
+        upstreamResponse.pipe(res);
+      });
+      req.pipe(upstream);
+    });
+    const proxyUrl = await listen(proxy);
+
+    try {
+      const client = new WaveSpeed('test-api-key', {
+        baseUrl: `${serverUrl}/api/`,
+        transport: { proxy: proxyUrl.replace('http://', 'http://user:secret@'), keepAlive: false },
+      });
+      const response = await client.fetchWithTimeout('models');
+
+      expect(await response.json()).toEqual({ method: 'GET', url: '/api/models' });
+      expect(proxied).toEqual([`${serverUrl}/api/models Basic ${Buffer.from('user:secret').toString('base64')}`]);
+      expect(requests[0].headers.authorization).toBe('Bearer test-api-key');
+    } finally {
+      await close(proxy);
+    }
+  });
+});
+
+describe('Proxy resolution', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.HTTPS_PROXY;
+    delete process.env.https_proxy;
+    delete process.env.HTTP_PROXY;
+    delete process.env.http_proxy;
+    delete process.env.NO_PROXY;
+    delete process.env.no_proxy;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should honor HTTPS_PROXY and NO_PROXY', () => {
+    process.env.HTTPS_PROXY = 'http://proxy.internal:3128';
+    process.env.NO_PROXY = 'localhost,.internal';
+
+    expect(resolveProxy(new URL('https://api.wavespeed.ai/api/v3/'))?.href).toBe('http://proxy.internal:3128/');
+    expect(resolveProxy(new URL('https://storage.internal/file'))).toBeUndefined();
+    expect(resolveProxy(new URL('http://localhost:8080/'))).toBeUndefined();
+    expect(resolveProxy(new URL('https://api.wavespeed.ai/'), { proxy: false })).toBeUndefined();
+    expect(resolveProxy(new URL('https://localhost/'), { noProxy: '' })?.host).toBe('proxy.internal:3128');
+  });
+
+  test('should match NO_PROXY entries by domain and port', () => {
+    const url = new URL('https://api.wavespeed.ai/');
+
+    expect(shouldBypassProxy(url, '*')).toBe(true);
+    expect(shouldBypassProxy(url, 'wavespeed.ai')).toBe(true);
+    expect(shouldBypassProxy(url, '*.wavespeed.ai')).toBe(true);
+    expect(shouldBypassProxy(url, 'wavespeed.ai:443')).toBe(true);
+    expect(shouldBypassProxy(url, 'wavespeed.ai:8443')).toBe(false);
+    expect(shouldBypassProxy(url, 'speed.ai')).toBe(false);
+    expect(shouldBypassProxy(url, undefined)).toBe(false);
+  });
+});
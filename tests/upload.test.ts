@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+import { UploadError, UploadProgress, WaveSpeed, WaveSpeedError, WaveSpeedNetworkError, WaveSpeedTimeoutError } from '../src';
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+interface ReceivedUpload {
+  contentType: string;
+  filename: string;
+  type: string;
+  content: string;
+}
+
+describe('Upload sources', () => {
+  const originalFetch = global.fetch;
+  let tmpDir: string;
+  let received: ReceivedUpload[];
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wavespeed-upload-'));
+    received = [];
+
+    // Parse the multipart body the way the API would
+    global.fetch = jest.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const request = new Request('http://localhost/upload', { method: 'POST', body: init.body, headers: init.headers, duplex: 'half' } as RequestInit);
+      const form = await request.formData();
+      const file = form.get('file') as File;
+      received.push({
+        contentType: request.headers.get('content-type')!,
+        filename: file.name,
+        type: file.type,
+        content: Buffer.from(await file.arrayBuffer()).toString('latin1'),
+      });
+      return new Response(JSON.stringify({
+        code: 200,
+        message: 'success',
+        data: { type: file.type, download_url: `https://cdn.example.com/${file.name}`, filename: file.name, size: file.size }
+      }), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should upload a file path and return the file metadata', async () => {
+    const filePath = path.join(tmpDir, 'photo.png');
+    fs.writeFileSync(filePath, PNG_BYTES);
+
+    const client = new WaveSpeed('test-api-key');
+    const result = await client.upload(filePath);
+
+    expect(result).toEqual({
+      type: 'image/png',
+      download_url: 'https://cdn.example.com/photo.png',
+      filename: 'photo.png',
+      size: PNG_BYTES.length,
+    });
+    expect(received[0].content).toBe(Buffer.from(PNG_BYTES).toString('latin1'));
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/media/upload/binary',
+      expect.objectContaining({ method: 'POST', body: expect.any(FormData) })
+    );
+  });
+
+  test('should upload file URLs', async () => {
+    const filePath = path.join(tmpDir, 'clip.mp4');
+    fs.writeFileSync(filePath, 'video');
+
+    const client = new WaveSpeed('test-api-key');
+    const result = await client.upload(pathToFileURL(filePath));
+
+    expect(result.filename).toBe('clip.mp4');
+    expect(result.type).toBe('video/mp4');
+  });
+
+  test('should fail on missing files without sending a request', async () => {
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+
+    await expect(client.upload(path.join(tmpDir, 'missing.png'))).rejects.toThrow(WaveSpeedError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('should detect the type of Buffers and Uint8Arrays', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    const fromBuffer = await client.upload(Buffer.from(PNG_BYTES));
+    const fromBytes = await client.upload(new TextEncoder().encode('plain text'), { filename: 'notes.txt' });
+
+    expect(fromBuffer).toMatchObject({ filename: 'file.png', type: 'image/png' });
+    expect(fromBytes).toMatchObject({ filename: 'notes.txt', type: 'text/plain' });
+    expect(received[1].content).toBe('plain text');
+  });
+
+  test('should upload Files and Blobs', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    const fromFile = await client.upload(new File(['gif'], 'anim.gif', { type: 'image/gif' }));
+    const fromBlob = await client.upload(new Blob([PNG_BYTES]));
+
+    expect(fromFile).toMatchObject({ filename: 'anim.gif', type: 'image/gif' });
+    expect(fromBlob).toMatchObject({ filename: 'file.png', type: 'image/png' });
+  });
+
+  test('should throw an UploadError when the response is not JSON', async () => {
+    (global.fetch as jest.Mock).mockReset().mockResolvedValueOnce(new Response('<html>Bad gateway</html>', { status: 200 }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+
+    const error = await client.upload(PNG_BYTES).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.status).toBe(200);
+    expect(error.body).toBe('<html>Bad gateway</html>');
+  });
+
+  test('should upload data URIs', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    const result = await client.upload(`data:image/png;base64,${Buffer.from(PNG_BYTES).toString('base64')}`);
+
+    expect(result).toMatchObject({ filename: 'file.png', type: 'image/png', size: PNG_BYTES.length });
+    expect(received[0].content).toBe(Buffer.from(PNG_BYTES).toString('latin1'));
+  });
+
+  test('should stream Node.js readable streams without retrying them', async () => {
+    const filePath = path.join(tmpDir, 'voice.wav');
+    fs.writeFileSync(filePath, 'RIFF----WAVEdata');
+
+    const client = new WaveSpeed('test-api-key');
+    const result = await client.upload(fs.createReadStream(filePath));
+
+    expect(result).toMatchObject({ filename: 'voice.wav', type: 'audio/wav' });
+    expect(received[0].content).toBe('RIFF----WAVEdata');
+    expect(received[0].contentType).toMatch(/^multipart\/form-data; boundary=----WaveSpeedFormBoundary/);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ body: expect.any(ReadableStream), duplex: 'half', maxRetries: 0 })
+    );
+  });
+
+  test('should stream web ReadableStreams and sniff their type', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const stream = Readable.toWeb(Readable.from([Buffer.from(PNG_BYTES.subarray(0, 8)), Buffer.from(PNG_BYTES.subarray(8))]));
+
+    const result = await client.upload(stream as ReadableStream<Uint8Array>, { filename: 'frame' });
+
+    expect(result).toMatchObject({ filename: 'frame', type: 'image/png' });
+    expect(received[0].content).toBe(Buffer.from(PNG_BYTES).toString('latin1'));
+  });
+
+  test('should not give a late retry more than the rest of the time budget', async () => {
+    (global.fetch as jest.Mock).mockReset()
+      .mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return new Response(JSON.stringify({ code: 429, message: 'rate limited' }), { status: 429, headers: { 'retry-after': '0' } });
+      })
+      // The retry is held open until it is cut off
+      .mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent', upload: { timeout: 0.3 } });
+    const startedAt = Date.now();
+
+    const error = await client.upload(PNG_BYTES).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedTimeoutError);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    // The retry ran out with the budget, not a full budget after the first attempt
+    expect(Date.now() - startedAt).toBeLessThan(450);
+  });
+
+  test('should let the caller override the file name and type', async () => {
+    const client = new WaveSpeed('test-api-key');
+
+    const result = await client.upload(Buffer.from('{}'), { filename: 'mask.bin', contentType: 'application/x-mask' });
+
+    expect(result).toMatchObject({ filename: 'mask.bin', type: 'application/x-mask' });
+  });
+});
+
+interface ChunkedUpload {
+  filename: string;
+  size: number;
+  data: Buffer;
+}
+
+describe('Upload progress and chunked uploads', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let uploads: Map<string, ChunkedUpload>;
+  let chunkOffsets: number[];
+  // Decides how the stand-in server handles a chunk: store it and reply, drop the connection before or
+  // after storing it, or never reply
+  let onChunk: (offset: number) => 'ok' | 'drop' | 'lose-ack' | 'hang';
+
+  const reply = (res: http.ServerResponse, data: unknown) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ code: 200, message: 'success', data }));
+  };
+
+  beforeAll(async () => {
+    // Stand-in for the upload API, with the chunked upload protocol
+    server = http.createServer((req, res) => {
+      const body: Buffer[] = [];
+      req.on('data', chunk => body.push(chunk));
+      req.on('end', async () => {
+        const data = Buffer.concat(body);
+        const match = /^\/api\/v3\/media\/upload\/chunked(?:\/([^/]+))?(\/complete)?$/.exec(req.url!);
+
+        if (req.url === '/api/v3/media/upload/binary') {
+          const request = new Request('http://localhost/upload', { method: 'POST', body: data, headers: { 'content-type': req.headers['content-type']! } });
+          const file = (await request.formData()).get('file') as File;
+          reply(res, { type: file.type, download_url: `https://cdn.example.com/${file.name}`, filename: file.name, size: file.size });
+        } else if (match && !match[1] && req.method === 'POST') {
+          const { filename, size } = JSON.parse(data.toString());
+          const uploadId = `upload-${uploads.size + 1}`;
+          uploads.set(uploadId, { filename, size, data: Buffer.alloc(0) });
+          reply(res, { upload_id: uploadId });
+        } else if (match && req.method === 'PUT') {
+          const upload = uploads.get(match[1])!;
+          const offset = Number(/^bytes (\d+)-/.exec(req.headers['content-range'] as string)![1]);
+          chunkOffsets.push(offset);
+          const action = onChunk(offset);
+          if (action === 'hang') {
+            return;
+          }
+          if (action === 'drop') {
+            req.socket.destroy();
+            return;
+          }
+          upload.data = Buffer.concat([upload.data.subarray(0, offset), data]);
+          if (action === 'lose-ack') {
+            req.socket.destroy();
+            return;
+          }
+          reply(res, { offset: upload.data.length });
+        } else if (match && !match[2] && req.method === 'GET') {
+          reply(res, { offset: uploads.get(match[1])!.data.length });
+        } else if (match && match[2]) {
+          const upload = uploads.get(match[1])!;
+          reply(res, { type: 'text/plain', download_url: `https://cdn.example.com/${upload.filename}`, filename: upload.filename, size: upload.data.length });
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v3/`;
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    uploads = new Map();
+    chunkOffsets = [];
+    onChunk = () => 'ok';
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  });
+
+  test('should report the bytes sent and the total of a file', async () => {
+    const client = new WaveSpeed('test-api-key', { baseUrl });
+    const progress: UploadProgress[] = [];
+
+    const result = await client.upload(Buffer.alloc(200000, 1), { filename: 'weights.bin', onProgress: event => progress.push(event) });
+
+    expect(result).toMatchObject({ filename: 'weights.bin', size: 200000 });
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[progress.length - 1]).toEqual({ loaded: 200000, total: 200000 });
+    expect(progress.every((event, i) => i === 0 || event.loaded >= progress[i - 1].loaded)).toBe(true);
+  });
+
+  test('should report the bytes sent of a stream', async () => {
+    const client = new WaveSpeed('test-api-key', { baseUrl });
+    const progress: UploadProgress[] = [];
+
+    await client.upload(Readable.from([Buffer.from('hello '), Buffer.from('world')]), { filename: 'a.txt', onProgress: event => progress.push(event) });
+
+    expect(progress).toEqual([{ loaded: 6 }, { loaded: 11 }]);
+  });
+
+  test('should upload files above the threshold in chunks', async () => {
+    const client = new WaveSpeed('test-api-key', { baseUrl, upload: { chunkThreshold: 8, chunkSize: 4 } });
+    const progress: UploadProgress[] = [];
+
+    const result = await client.upload(Buffer.from('0123456789'), { filename: 'digits.txt', onProgress: event => progress.push(event) });
+
+    expect(result).toEqual({ type: 'text/plain', download_url: 'https://cdn.example.com/digits.txt', filename: 'digits.txt', size: 10 });
+    expect(chunkOffsets).toEqual([0, 4, 8]);
+    expect(uploads.get('upload-1')!.data.toString()).toBe('0123456789');
+    expect(progress).toEqual([{ loaded: 4, total: 10 }, { loaded: 8, total: 10 }, { loaded: 10, total: 10 }]);
+  });
+
+  test('should fall back to a single request when the API has no chunked upload endpoint', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const client = new WaveSpeed('test-api-key', { baseUrl, upload: { chunkThreshold: 8, chunkedPath: 'media/upload/missing' } });
+
+    const first = await client.upload(Buffer.from('0123456789'), { filename: 'digits.txt' });
+    const second = await client.upload(Buffer.from('9876543210'), { filename: 'reversed.txt' });
+
+    expect(first).toMatchObject({ download_url: 'https://cdn.example.com/digits.txt', size: 10 });
+    expect(second).toMatchObject({ download_url: 'https://cdn.example.com/reversed.txt', size: 10 });
+    // The missing endpoint is only tried once
+    expect(fetchSpy.mock.calls.map(call => new URL(String(call[0])).pathname)).toEqual([
+      '/api/v3/media/upload/missing',
+      '/api/v3/media/upload/binary',
+      '/api/v3/media/upload/binary',
+    ]);
+  });
+
+  test('should resume from the last acknowledged chunk after a network error', async () => {
+    const client = new WaveSpeed('test-api-key', {
+      baseUrl,
+      logLevel: 'silent',
+      retry: { maxRetries: 0, baseDelay: 1 },
+      upload: { chunkThreshold: 8, chunkSize: 4 },
+    });
+    let lost = false;
+    onChunk = offset => {
+      if (offset === 4 && !lost) {
+        lost = true;
+        return 'lose-ack';
+      }
+      return 'ok';
+    };
+
+    const result = await client.upload(Buffer.from('0123456789'), { filename: 'digits.txt' });
+
+    expect(result.size).toBe(10);
+    // The API received the second chunk before the connection dropped, so it is not sent again
+    expect(chunkOffsets).toEqual([0, 4, 8]);
+    expect(uploads.get('upload-1')!.data.toString()).toBe('0123456789');
+  });
+
+  test('should give up after the maximum number of resumes', async () => {
+    const client = new WaveSpeed('test-api-key', {
+      baseUrl,
+      logLevel: 'silent',
+      retry: { maxRetries: 0, baseDelay: 1 },
+      upload: { chunkThreshold: 8, chunkSize: 4, maxResumes: 2 },
+    });
+    onChunk = offset => offset === 4 ? 'drop' : 'ok';
+
+    await expect(client.upload(Buffer.from('0123456789'))).rejects.toThrow(WaveSpeedNetworkError);
+    expect(chunkOffsets).toEqual([0, 4, 4, 4]);
+  });
+
+  test('should fail when an upload exceeds its time budget', async () => {
+    const client = new WaveSpeed('test-api-key', {
+      baseUrl,
+      logLevel: 'silent',
+      timeout: 0.05,
+      upload: { timeout: 0.3, chunkThreshold: 8, chunkSize: 4 },
+    });
+    onChunk = offset => offset === 4 ? 'hang' : 'ok';
+    const startedAt = Date.now();
+
+    const error = await client.upload(Buffer.from('0123456789')).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedTimeoutError);
+    expect(error.message).toContain('did not finish within 300ms');
+    // The chunk was not cut off by the 50ms request timeout
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(290);
+  });
+});
@@ -1,8 +1,27 @@
-import { WaveSpeed, Prediction, RequestOptions } from '../src';
+import {
+  WaveSpeed,
+  Prediction,
+  RequestOptions,
+  WaveSpeedError,
+  WaveSpeedAPIError,
+  WaveSpeedNetworkError,
+  WaveSpeedAbortError,
+  PredictionFailedError,
+  PredictionTimeoutError,
+  PredictionCancelledError,
+  WaveSpeedTimeoutError,
+  UploadError,
+} from '../src';
 
 // Mock fetch
 const originalFetch = global.fetch;
 
+// Members of the client used by predictions, for partial client mocks
+const clientStubs = () => ({
+  logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+  _onCancel: () => () => {},
+});
+
 describe('WaveSpeed Client', () => {
   // Save original environment and fetch
   const originalEnv = process.env;
@@ -452,7 +471,8 @@ describe('Prediction', () => {
   const mockFetchWithTimeout = jest.fn();
   const mockClient = {
     fetchWithTimeout: mockFetchWithTimeout,
-    pollInterval: 1
+    pollInterval: 1,
+    ...clientStubs()
   } as unknown as WaveSpeed;
 
   beforeEach(() => {
@@ -519,14 +539,8 @@ describe('Prediction', () => {
 
       // Setup mocks
       mockFetchWithTimeout
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(mockFirstPollResponse)
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve(mockSecondPollResponse)
-        });
+        .mockResolvedValueOnce(new Response(JSON.stringify(mockFirstPollResponse), { status: 200 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify(mockSecondPollResponse), { status: 200 }));
 
       // Create prediction and wait
       const prediction = new Prediction(predictionData.data, mockClient);
@@ -546,7 +560,7 @@ describe('Prediction', () => {
       
       // Verify API calls
       expect(mockFetchWithTimeout).toHaveBeenCalledTimes(2);
-      expect(mockFetchWithTimeout).toHaveBeenCalledWith('predictions/pred-123/result');
+      expect(mockFetchWithTimeout).toHaveBeenCalledWith('predictions/pred-123/result', expect.anything());
       
       // Verify prediction was updated
       expect(result.status).toBe('completed');
@@ -586,17 +600,14 @@ describe('Prediction', () => {
       }};
 
       // Setup mock
-      mockFetchWithTimeout.mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockReloadResponse)
-      });
+      mockFetchWithTimeout.mockResolvedValueOnce(new Response(JSON.stringify(mockReloadResponse), { status: 200 }));
 
       // Create prediction and reload
       const prediction = new Prediction(predictionData.data, mockClient);
       const result = await prediction.reload();
       
       // Verify API call
-      expect(mockFetchWithTimeout).toHaveBeenCalledWith('predictions/pred-123/result');
+      expect(mockFetchWithTimeout).toHaveBeenCalledWith('predictions/pred-123/result', expect.anything());
       
       // Verify prediction was updated
       expect(result).toBe(prediction);
@@ -634,3 +645,803 @@ describe('Prediction', () => {
     });
   });
 });
+
+describe('Errors', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('create should throw WaveSpeedAPIError with response details', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response(
+      JSON.stringify({ code: 401, message: 'Invalid API key' }),
+      { status: 401, headers: { 'x-request-id': 'req-1' } }
+    ));
+
+    const client = new WaveSpeed('test-api-key');
+    const error = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(error).toBeInstanceOf(WaveSpeedError);
+    expect(error.status).toBe(401);
+    expect(error.code).toBe(401);
+    expect(error.apiMessage).toBe('Invalid API key');
+    expect(error.requestId).toBe('req-1');
+    expect(error.body).toBe(JSON.stringify({ code: 401, message: 'Invalid API key' }));
+  });
+
+  test('create should throw WaveSpeedAPIError when the body code is not 200', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response(
+      JSON.stringify({ code: 400, message: 'size is invalid' }),
+      { status: 200 }
+    ));
+
+    const client = new WaveSpeed('test-api-key');
+    const error = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(error.message).toBe('Failed to create prediction: 400 size is invalid');
+    expect(error.code).toBe(400);
+  });
+
+  test('create should throw WaveSpeedAPIError when the body is not JSON', async () => {
+    const page = '<html><body>Bad gateway</body></html>';
+    (global.fetch as jest.Mock).mockResolvedValue(new Response(page, { status: 200, headers: { 'x-request-id': 'req-1' } }));
+
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+    const error = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(error.message).toBe('Failed to create prediction: 200 response is not valid JSON');
+    expect(error.status).toBe(200);
+    expect(error.requestId).toBe('req-1');
+    expect(error.body).toBe(page);
+  });
+
+  test('fetchWithTimeout should throw WaveSpeedNetworkError once retries are exhausted', async () => {
+    const originalConsoleWarn = console.warn;
+    console.warn = jest.fn();
+    const networkError = new TypeError('Failed to fetch');
+    (global.fetch as jest.Mock).mockRejectedValue(networkError);
+
+    const client = new WaveSpeed('test-api-key');
+    // @ts-ignore - accessing private method for testing
+    client._getBackoffTime = jest.fn().mockReturnValue(1);
+
+    const error = await client.fetchWithTimeout('/test-path', { maxRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WaveSpeedNetworkError);
+    expect(error.cause).toBe(networkError);
+    console.warn = originalConsoleWarn;
+  });
+
+  test('wait should throw PredictionFailedError carrying the prediction', async () => {
+    const prediction = new Prediction({
+      id: 'pred-123',
+      model: 'wavespeed-ai/flux-dev',
+      status: 'failed',
+      error: 'NSFW content detected',
+    }, clientStubs() as unknown as WaveSpeed);
+
+    const error = await prediction.wait().catch(e => e);
+
+    expect(error).toBeInstanceOf(PredictionFailedError);
+    expect(error.prediction).toBe(prediction);
+    expect(error.message).toContain('NSFW content detected');
+  });
+
+  test('upload should throw UploadError', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Payload too large', { status: 413 }));
+
+    const client = new WaveSpeed('test-api-key');
+    const error = await client.upload(new Blob(['data'])).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(error.status).toBe(413);
+  });
+});
+
+describe('Cancellation', () => {
+  const originalFetch = global.fetch;
+
+  // Resolve like fetch does when its signal is aborted
+  const hangingFetch = (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  });
+
+  const processingResponse = () => new Response(JSON.stringify({
+    code: 200,
+    data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing' }
+  }), { status: 200 });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should not call fetch when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const client = new WaveSpeed('test-api-key');
+    await expect(client.fetchWithTimeout('/test-path', { signal: controller.signal }))
+      .rejects.toBeInstanceOf(WaveSpeedAbortError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('should abort an in-flight request', async () => {
+    (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const client = new WaveSpeed('test-api-key');
+    const promise = client.fetchWithTimeout('/test-path', { signal: controller.signal });
+    controller.abort('navigated away');
+
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(WaveSpeedAbortError);
+    expect(error.reason).toBe('navigated away');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should cancel the backoff sleep between retries', async () => {
+    const originalConsoleWarn = console.warn;
+    console.warn = jest.fn();
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('Rate limit exceeded', { status: 429 }));
+    const controller = new AbortController();
+
+    const client = new WaveSpeed('test-api-key');
+    // @ts-ignore - accessing private method for testing
+    client._getBackoffTime = jest.fn().mockReturnValue(60000);
+
+    const promise = client.fetchWithTimeout('/test-path', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(WaveSpeedAbortError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    console.warn = originalConsoleWarn;
+  });
+
+  test('run should stop polling when the signal is aborted', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve(processingResponse()));
+    const controller = new AbortController();
+
+    const client = new WaveSpeed('test-api-key', { pollInterval: 60 });
+    const promise = client.run('wavespeed-ai/flux-dev', { prompt: 'test' }, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(WaveSpeedAbortError);
+    // One create and one poll, no further polling after abort
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Prediction.wait options', () => {
+  const predictionData = (status: string) => ({
+    id: 'pred-123',
+    model: 'wavespeed-ai/flux-dev',
+    status,
+    outputs: status === 'completed' ? ['https://example.com/image1.png'] : [],
+  });
+
+  const pollResponse = (status: string) => new Response(JSON.stringify({ data: predictionData(status) }), { status: 200 });
+
+  const createClient = () => ({
+    fetchWithTimeout: jest.fn(),
+    pollInterval: 0.01,
+    ...clientStubs()
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should call onProgress on every status transition', async () => {
+    const client = createClient();
+    client.fetchWithTimeout
+      .mockResolvedValueOnce(pollResponse('created'))
+      .mockResolvedValueOnce(pollResponse('processing'))
+      .mockResolvedValueOnce(pollResponse('processing'))
+      .mockResolvedValueOnce(pollResponse('completed'));
+    const onProgress = jest.fn();
+
+    const prediction = new Prediction(predictionData('created'), client as unknown as WaveSpeed);
+    await prediction.wait({ onProgress });
+
+    expect(client.fetchWithTimeout).toHaveBeenCalledTimes(4);
+    expect(onProgress.mock.calls.map(([progress]) => progress.status)).toEqual(['processing', 'completed']);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+      prediction,
+      elapsed: expect.any(Number)
+    }));
+  });
+
+  test('should throw PredictionTimeoutError when the deadline passes', async () => {
+    const client = createClient();
+    client.fetchWithTimeout.mockImplementation(() => Promise.resolve(pollResponse('processing')));
+
+    const prediction = new Prediction(predictionData('processing'), client as unknown as WaveSpeed);
+    const error = await prediction.wait({ timeout: 0.05 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PredictionTimeoutError);
+    expect(error).toBeInstanceOf(WaveSpeedTimeoutError);
+    expect(error.predictionId).toBe('pred-123');
+    expect(error.prediction).toBe(prediction);
+  });
+
+  test('should back off exponentially up to maxPollInterval', async () => {
+    jest.useFakeTimers();
+    const client = createClient();
+    const pollTimes: number[] = [];
+    client.fetchWithTimeout.mockImplementation(() => {
+      pollTimes.push(Date.now());
+      return Promise.resolve(pollResponse('processing'));
+    });
+
+    const prediction = new Prediction(predictionData('processing'), client as unknown as WaveSpeed);
+    const promise = prediction.wait({ pollInterval: 1, backoff: 'exponential', maxPollInterval: 4, timeout: 12 });
+    const settled = promise.catch(e => e);
+    await jest.advanceTimersByTimeAsync(12000);
+
+    expect(await settled).toBeInstanceOf(PredictionTimeoutError);
+    const gaps = pollTimes.slice(1).map((time, i) => time - pollTimes[i]);
+    expect(gaps).toEqual([1000, 2000, 4000, 4000]);
+  });
+});
+
+describe('Prediction.stream', () => {
+  const predictionData = (status: string) => ({
+    id: 'pred-123',
+    model: 'wavespeed-ai/flux-dev',
+    status,
+  });
+
+  const pollResponse = (status: string) => new Response(JSON.stringify({ data: predictionData(status) }), { status: 200 });
+
+  test('should yield a snapshot on every status transition and end on a terminal status', async () => {
+    const client = { fetchWithTimeout: jest.fn(), pollInterval: 0.01, ...clientStubs() };
+    client.fetchWithTimeout
+      .mockResolvedValueOnce(pollResponse('created'))
+      .mockResolvedValueOnce(pollResponse('processing'))
+      .mockResolvedValueOnce(pollResponse('processing'))
+      .mockResolvedValueOnce(pollResponse('failed'));
+
+    const prediction = new Prediction(predictionData('created'), client as unknown as WaveSpeed);
+    const updates: Prediction[] = [];
+    for await (const update of prediction.stream()) {
+      updates.push(update);
+    }
+
+    expect(updates.map(update => update.status)).toEqual(['created', 'processing', 'failed']);
+    expect(updates[0]).not.toBe(prediction);
+    expect(client.fetchWithTimeout).toHaveBeenCalledTimes(4);
+  });
+
+  test('should stop polling when the loop breaks early', async () => {
+    const client = { fetchWithTimeout: jest.fn(), pollInterval: 0.01, ...clientStubs() };
+    client.fetchWithTimeout
+      .mockResolvedValueOnce(pollResponse('processing'))
+      .mockImplementation(() => Promise.resolve(pollResponse('processing')));
+
+    const prediction = new Prediction(predictionData('created'), client as unknown as WaveSpeed);
+    for await (const update of prediction.stream({ timeout: 60 })) {
+      if (update.status === 'processing') {
+        break;
+      }
+    }
+    const callCount = client.fetchWithTimeout.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(callCount).toBe(1);
+    expect(client.fetchWithTimeout).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Batch execution', () => {
+  const originalFetch = global.fetch;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  // Each prediction is named after its prompt and ends with the status given in the input
+  const mockApi = () => (global.fetch as jest.Mock).mockImplementation(async (url: string, init: RequestInit) => {
+    if (init.method === 'POST') {
+      const input = JSON.parse(init.body as string);
+      if (input.status === 'rejected') {
+        return new Response(JSON.stringify({ code: 400, message: 'invalid input' }), { status: 400 });
+      }
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return new Response(JSON.stringify({
+        code: 200,
+        data: { id: input.prompt, model: url.split('/v3/')[1], status: 'processing' }
+      }), { status: 200 });
+    }
+    const id = url.split('/').slice(-2)[0];
+    const status = id.startsWith('fail') ? 'failed' : 'completed';
+    await new Promise(resolve => setTimeout(resolve, 10));
+    inFlight--;
+    return new Response(JSON.stringify({ data: { id, status } }), { status: 200 });
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+    inFlight = 0;
+    maxInFlight = 0;
+    mockApi();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('runMany should settle every item in input order', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+    const onItemDone = jest.fn();
+
+    const results = await client.runMany('test-model', [
+      { prompt: 'ok-1' },
+      { prompt: 'fail-2' },
+      { prompt: 'bad-3', status: 'rejected' },
+      { prompt: 'ok-4' },
+    ], { onItemDone });
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'rejected', 'fulfilled']);
+    expect(results[0].status === 'fulfilled' && results[0].prediction.id).toBe('ok-1');
+    expect(results[1].status === 'rejected' && results[1].error).toBeInstanceOf(PredictionFailedError);
+    expect(results[2].status === 'rejected' && results[2].error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(onItemDone).toHaveBeenCalledTimes(4);
+  });
+
+  test('runMany should limit concurrency', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+    const inputs = Array.from({ length: 6 }, (_, i) => ({ prompt: `ok-${i}` }));
+
+    const results = await client.runMany('test-model', inputs, { concurrency: 2 });
+
+    expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('runMany should abort the remaining items with stopOnError', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+
+    const results = await client.runMany('test-model', [
+      { prompt: 'bad-1', status: 'rejected' },
+      { prompt: 'ok-2' },
+      { prompt: 'ok-3' },
+    ], { concurrency: 1, stopOnError: true });
+
+    expect(results[0].status === 'rejected' && results[0].error).toBeInstanceOf(WaveSpeedAPIError);
+    expect(results[1].status === 'rejected' && results[1].error).toBeInstanceOf(WaveSpeedAbortError);
+    expect(results[2].status === 'rejected' && results[2].error).toBeInstanceOf(WaveSpeedAbortError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('runMany should report a throwing onItemDone through the item result', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+    const callbackError = new Error('callback failed');
+    const onItemDone = jest.fn((_result, index: number) => {
+      if (index === 0) {
+        throw callbackError;
+      }
+    });
+
+    const results = await client.runMany('test-model', [{ prompt: 'ok-1' }, { prompt: 'ok-2' }], { concurrency: 1, onItemDone });
+
+    expect(results[0]).toEqual({ status: 'rejected', error: callbackError });
+    expect(results[1].status).toBe('fulfilled');
+    expect(onItemDone).toHaveBeenCalledTimes(2);
+  });
+
+  test('runBatch should run items on different models', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+
+    const results = await client.runBatch([
+      { modelId: 'wavespeed-ai/flux-dev', input: { prompt: 'ok-1' } },
+      { modelId: 'wavespeed-ai/flux-schnell', input: { prompt: 'ok-2' } },
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/wavespeed-ai/flux-schnell',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled']);
+  });
+});
+
+describe('Idempotency keys', () => {
+  const originalFetch = global.fetch;
+
+  const createdResponse = () => new Response(JSON.stringify({
+    code: 200,
+    data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'created' }
+  }), { status: 200 });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('create should reuse a generated key across retries and record it on the prediction', async () => {
+    const originalConsoleWarn = console.warn;
+    console.warn = jest.fn();
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(createdResponse());
+
+    const client = new WaveSpeed('test-api-key', { retry: { baseDelay: 1 } });
+    const prediction = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    const keys = (global.fetch as jest.Mock).mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(keys[0]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(new Set(keys).size).toBe(1);
+    expect(prediction.idempotencyKey).toBe(keys[0]);
+    console.warn = originalConsoleWarn;
+  });
+
+  test('create should use a caller supplied key and keep it across reloads', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(createdResponse())
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'completed' }
+      }), { status: 200 }));
+
+    const client = new WaveSpeed('test-api-key');
+    const prediction = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' }, { idempotencyKey: 'job-42' });
+    await prediction.reload();
+
+    expect(global.fetch).toHaveBeenNthCalledWith(1, expect.any(String), expect.objectContaining({
+      headers: expect.objectContaining({ 'Idempotency-Key': 'job-42' })
+    }));
+    expect(prediction.status).toBe('completed');
+    expect(prediction.idempotencyKey).toBe('job-42');
+  });
+
+  test('create should not send a key when disabled', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(createdResponse());
+
+    const client = new WaveSpeed('test-api-key');
+    const prediction = await client.create('wavespeed-ai/flux-dev', { prompt: 'test' }, { idempotencyKey: false });
+
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers).not.toHaveProperty('Idempotency-Key');
+    expect(prediction.idempotencyKey).toBeUndefined();
+  });
+});
+
+describe('Middleware', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should run once per attempt and see the attempt number', async () => {
+    const originalConsoleWarn = console.warn;
+    console.warn = jest.fn();
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    const seen: Array<{ method: string; attempt: number; status: number }> = [];
+
+    const client = new WaveSpeed('test-api-key', { retry: { baseDelay: 1 } });
+    client.use(async (request, next) => {
+      const response = await next();
+      seen.push({ method: request.method, attempt: request.attempt, status: response.status });
+      return response;
+    });
+    await client.fetchWithTimeout('/test-path');
+
+    expect(seen).toEqual([
+      { method: 'GET', attempt: 1, status: 503 },
+      { method: 'GET', attempt: 2, status: 200 },
+    ]);
+    console.warn = originalConsoleWarn;
+  });
+
+  test('should compose in order and let middleware modify the request', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('{}', { status: 200 }));
+    const order: string[] = [];
+
+    const client = new WaveSpeed('test-api-key');
+    client
+      .use(async (request, next) => {
+        order.push('outer');
+        request.headers['traceparent'] = '00-trace-span-01';
+        return next();
+      })
+      .use(async (request, next) => {
+        order.push('inner');
+        return next({ ...request, url: request.url.replace('https://api.wavespeed.ai', 'https://gateway.internal') });
+      });
+    await client.fetchWithTimeout('/test-path', { method: 'POST', body: '{"a":1}' });
+
+    expect(order).toEqual(['outer', 'inner']);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://gateway.internal/api/v3/test-path',
+      expect.objectContaining({
+        method: 'POST',
+        body: '{"a":1}',
+        headers: expect.objectContaining({ 'traceparent': '00-trace-span-01', 'Authorization': 'Bearer test-api-key' })
+      })
+    );
+  });
+
+  test('should allow short-circuiting without calling fetch', async () => {
+    const client = new WaveSpeed('test-api-key');
+    client.use(async () => new Response(JSON.stringify({ cached: true }), { status: 200 }));
+
+    const response = await client.fetchWithTimeout('/test-path');
+
+    expect(await response.json()).toEqual({ cached: true });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Serialization and resuming', () => {
+  const originalFetch = global.fetch;
+
+  const resultResponse = (status: string, outputs: string[] = []) => new Response(JSON.stringify({
+    code: 200,
+    data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', status, outputs, urls: { get: '' } }
+  }), { status: 200 });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('toJSON should leave out the client and its API key', () => {
+    const client = new WaveSpeed('secret-api-key');
+    const prediction = new Prediction({
+      id: 'pred-123',
+      model: 'wavespeed-ai/flux-dev',
+      status: 'processing',
+      input: { prompt: 'a cat' },
+      idempotencyKey: 'key-1',
+    }, client);
+
+    const json = JSON.stringify(prediction);
+
+    expect(json).not.toContain('secret-api-key');
+    expect(JSON.stringify({ ...prediction })).not.toContain('secret-api-key');
+    expect(JSON.parse(json)).toEqual({
+      id: 'pred-123',
+      model: 'wavespeed-ai/flux-dev',
+      status: 'processing',
+      input: { prompt: 'a cat' },
+      outputs: [],
+      has_nsfw_contents: [],
+      idempotencyKey: 'key-1',
+    });
+  });
+
+  test('attach should rebuild a prediction that resumes waiting', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(resultResponse('completed', ['https://example.com/image.png']));
+    const stored = JSON.stringify(new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing' }, new WaveSpeed('old-key')));
+
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01 });
+    const prediction = client.attach<'wavespeed-ai/flux-dev'>(stored);
+    expect(prediction).toBeInstanceOf(Prediction);
+    expect(prediction.status).toBe('processing');
+
+    await prediction.wait();
+
+    expect(prediction.outputs).toEqual(['https://example.com/image.png']);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/predictions/pred-123/result',
+      expect.objectContaining({ headers: expect.objectContaining({ 'Authorization': 'Bearer test-api-key' }) })
+    );
+  });
+
+  test('attach should reject data without an id', () => {
+    const client = new WaveSpeed('test-api-key');
+
+    expect(() => client.attach('{"status":"processing"}')).toThrow(WaveSpeedError);
+  });
+
+  test('attach should reject malformed JSON with a WaveSpeedError', () => {
+    const client = new WaveSpeed('test-api-key');
+
+    expect(() => client.attach('{"id":"pred-123",')).toThrow(WaveSpeedError);
+    expect(() => client.attach('{"id":"pred-123",')).toThrow(/^Cannot attach a prediction: invalid JSON/);
+  });
+
+  test('getPrediction should fetch a prediction by id', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(resultResponse('processing'));
+    const client = new WaveSpeed('test-api-key');
+
+    const prediction = await client.getPrediction('pred-123');
+
+    expect(prediction).toBeInstanceOf(Prediction);
+    expect(prediction).toMatchObject({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing' });
+  });
+
+  test('getPrediction should throw a WaveSpeedAPIError for unknown ids', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(JSON.stringify({ code: 404, message: 'not found' }), { status: 404 }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+
+    await expect(client.getPrediction('missing')).rejects.toThrow(WaveSpeedAPIError);
+  });
+});
+
+describe('Prediction cancellation', () => {
+  const originalFetch = global.fetch;
+
+  const jsonResponse = (data: Record<string, unknown>) => new Response(JSON.stringify({
+    code: 200,
+    data: { id: 'pred-123', model: 'wavespeed-ai/flux-dev', urls: { get: '' }, ...data }
+  }), { status: 200 });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn().mockImplementation(async (url: string) =>
+      url.endsWith('/cancel') ? jsonResponse({ status: 'cancelled' }) : jsonResponse({ status: 'processing' }));
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('cancel should call the cancel endpoint and update the status', async () => {
+    const client = new WaveSpeed('test-api-key');
+    const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing', input: { prompt: 'a cat' }, idempotencyKey: 'key-1' }, client);
+
+    await prediction.cancel();
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.wavespeed.ai/api/v3/predictions/pred-123/cancel',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(prediction.status).toBe('cancelled');
+    expect(prediction.input).toEqual({ prompt: 'a cat' });
+    expect(prediction.idempotencyKey).toBe('key-1');
+  });
+
+  test('a pending wait should reject with a PredictionCancelledError', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 10 });
+    const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing' }, client);
+
+    const settled = prediction.wait().catch(e => e);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const cancelled = await client.cancel('pred-123');
+    const error = await settled;
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(error).toBeInstanceOf(PredictionCancelledError);
+    expect(error.prediction).toBe(prediction);
+    expect(prediction.status).toBe('cancelled');
+    // One poll, then the cancellation interrupted the wait between polls
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('stream should end with a cancelled snapshot', async () => {
+    const client = new WaveSpeed('test-api-key', { pollInterval: 10 });
+    const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'created' }, client);
+
+    const statuses: string[] = [];
+    for await (const update of prediction.stream()) {
+      statuses.push(update.status);
+      if (update.status === 'processing') {
+        await prediction.cancel();
+      }
+    }
+
+    expect(statuses).toEqual(['created', 'processing', 'cancelled']);
+  });
+
+  test('wait should treat a cancelled status from the server as terminal', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => jsonResponse({ status: 'cancelled' }));
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01, logLevel: 'silent' });
+    const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'processing' }, client);
+
+    await expect(prediction.wait()).rejects.toThrow(PredictionCancelledError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('cancel should throw a WaveSpeedAPIError when the service refuses', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(JSON.stringify({ code: 400, message: 'prediction already completed' }), { status: 400 }));
+    const client = new WaveSpeed('test-api-key', { logLevel: 'silent' });
+    const prediction = new Prediction({ id: 'pred-123', model: 'wavespeed-ai/flux-dev', status: 'completed' }, client);
+
+    await expect(prediction.cancel()).rejects.toThrow(WaveSpeedAPIError);
+    expect(prediction.status).toBe('completed');
+  });
+});
+
+describe('Sync mode', () => {
+  const originalFetch = global.fetch;
+
+  const jsonResponse = (status: string) => new Response(JSON.stringify({
+    code: 200,
+    data: {
+      id: 'pred-123',
+      model: 'wavespeed-ai/flux-dev',
+      status,
+      outputs: status === 'completed' ? ['https://example.com/image.png'] : [],
+      urls: { get: '' },
+    }
+  }), { status: 200 });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = jest.fn();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('run should return a prediction finished in the create response without polling', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse('completed'));
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    const client = new WaveSpeed('test-api-key', { timeout: 10 });
+
+    const prediction = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' }, { sync: true });
+
+    expect(prediction.outputs).toEqual(['https://example.com/image.png']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(JSON.parse(init.body)).toEqual({ prompt: 'a cat', enable_sync_mode: true });
+    expect(init).not.toHaveProperty('sync');
+    // The request timeout is the sync timeout, not the client timeout
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 300000);
+  });
+
+  test('run should fall back to polling when the prediction is still running', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse('processing'))
+      .mockResolvedValueOnce(jsonResponse('completed'));
+    const client = new WaveSpeed('test-api-key', { pollInterval: 0.01, syncTimeout: 30 });
+
+    const prediction = await client.run('wavespeed-ai/flux-dev', { prompt: 'a cat' }, { sync: true });
+
+    expect(prediction.status).toBe('completed');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('https://api.wavespeed.ai/api/v3/predictions/pred-123/result');
+  });
+
+  test('create should not ask for sync mode by default', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse('created'));
+    const client = new WaveSpeed('test-api-key');
+
+    await client.create('wavespeed-ai/flux-dev', { prompt: 'a cat' });
+
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toEqual({ prompt: 'a cat' });
+  });
+});